@@ -0,0 +1,2 @@
+// Public API export
+export * from "./terminal-api";
@@ -0,0 +1,315 @@
+import {
+	ITerminalAPI,
+	PTYProfile,
+	TerminalErrorType,
+	TerminalOpenOptions,
+	TerminalPluginError,
+	TerminalRunOptions,
+	TerminalRunResult,
+	TerminalSession,
+	TerminalSessionInfo,
+} from "@/types";
+import {
+	ShellIntegrationParser,
+	runCommandInProcess,
+	runCommandInPTY,
+	stripAnsi,
+} from "@/core";
+import { TerminalView, discardDetachedSession } from "@/views";
+import type { TerminalProfile } from "@/settings";
+import type TerminalPlugin from "@/main";
+
+/**
+ * Public API for other plugins, Templater and QuickAdd scripts
+ *
+ * Available as `app.plugins.plugins["o-terminal"].api` once the native modules
+ * are loaded. Wraps TerminalManager (sessions), PTYManager (one-off runs)
+ * and TerminalView (display).
+ *
+ * @example
+ * ```js
+ * const api = app.plugins.plugins["o-terminal"].api;
+ * const { exitCode, output } = await api.run("git status --short");
+ * ```
+ */
+export class TerminalAPI implements ITerminalAPI {
+	readonly version = 1;
+
+	private plugin: TerminalPlugin;
+
+	constructor(plugin: TerminalPlugin) {
+		this.plugin = plugin;
+	}
+
+	async open(options: TerminalOpenOptions = {}): Promise<string> {
+		const profile = this.resolveProfile(options.profile);
+		const session =
+			await this.plugin.terminalManager.createTerminalWithAvailableShell(
+				undefined,
+				this.toPTYProfile(profile, options),
+			);
+		session.profileId = profile?.id;
+		if (options.name) {
+			this.plugin.terminalManager.renameTerminal(
+				session.id,
+				options.name,
+			);
+		}
+
+		const location = options.location ?? "tab";
+		switch (location) {
+			case "tab":
+			case "split":
+			case "dock":
+			case "sidebar":
+				await this.plugin.openSessionView(session, location);
+				break;
+			case "window":
+				await this.plugin.openSessionView(
+					session,
+					undefined,
+					this.plugin.app.workspace.openPopoutLeaf(),
+				);
+				break;
+			case "none":
+				break;
+		}
+
+		return session.id;
+	}
+
+	sendText(sessionId: string, text: string, execute = false): void {
+		this.plugin.terminalManager.sendText(sessionId, text, execute);
+	}
+
+	/**
+	 * Without a sessionId the command runs in its own PTY (or child process
+	 * with `pipe`) and resolves when it exits. With a sessionId it is typed
+	 * into that session and resolves when the shell reports the command
+	 * finished (OSC 133).
+	 */
+	async run(
+		command: string,
+		options: TerminalRunOptions = {},
+	): Promise<TerminalRunResult> {
+		if (options.sessionId) {
+			return this.runInSession(
+				this.getSession(options.sessionId),
+				command,
+				options.timeout,
+			);
+		}
+
+		const profile = this.resolveProfile(options.profile);
+		const runOptions = {
+			profile: this.toPTYProfile(profile, options),
+			timeout: options.timeout,
+		};
+
+		if (options.notify) {
+			return this.plugin.headlessRunner.run(command, {
+				...runOptions,
+				pipe: options.pipe,
+			});
+		}
+		const runCommand = options.pipe ? runCommandInProcess : runCommandInPTY;
+		return runCommand(this.plugin.ptyManager, command, runOptions);
+	}
+
+	write(sessionId: string, data: string): void {
+		const view = this.getSession(sessionId).view;
+		if (!(view instanceof TerminalView)) {
+			throw new TerminalPluginError(
+				TerminalErrorType.NOT_FOUND,
+				`Terminal session ${sessionId} is not shown in a view`,
+			);
+		}
+		view.write(data);
+	}
+
+	onOutput(
+		sessionId: string,
+		callback: (data: string) => void,
+	): { dispose(): void } {
+		this.getSession(sessionId);
+		return this.plugin.terminalManager.onOutput(sessionId, callback);
+	}
+
+	listSessions(): TerminalSessionInfo[] {
+		return Array.from(this.plugin.terminalManager.terminals.values()).map(
+			(session) => {
+				const view =
+					session.view instanceof TerminalView ? session.view : null;
+				return {
+					id: session.id,
+					name: session.name,
+					title: view?.getDisplayText() ?? session.name ?? session.id,
+					state: !session.isActive
+						? "exited"
+						: view
+							? "active"
+							: "detached",
+					pid: session.ptyProcess?.pid,
+					shell: session.shell,
+					cwd:
+						view?.getWorkingDirectory() ||
+						session.cwd ||
+						session.initialCwd ||
+						"",
+					profileId: session.profileId,
+					exitCode: session.exitCode,
+					createdAt: session.createdAt,
+				};
+			},
+		);
+	}
+
+	close(sessionId: string): void {
+		const session = this.getSession(sessionId);
+		if (session.view instanceof TerminalView) {
+			// Closing the pane destroys the session
+			session.view.leaf.detach();
+			return;
+		}
+
+		discardDetachedSession(sessionId);
+		this.plugin.terminalManager.destroyTerminal(sessionId);
+	}
+
+	/**
+	 * Type a command into a live session and wait for its OSC 133 D report
+	 * Output is what the shell printed between 133;C and 133;D
+	 */
+	private runInSession(
+		session: TerminalSession,
+		command: string,
+		timeout?: number,
+	): Promise<TerminalRunResult> {
+		if (!session.isActive) {
+			return Promise.reject(
+				new TerminalPluginError(
+					TerminalErrorType.PROCESS_TERMINATED,
+					`Terminal session ${session.id} is not running`,
+				),
+			);
+		}
+		if (!session.shellIntegration) {
+			return Promise.reject(
+				new TerminalPluginError(
+					TerminalErrorType.PROCESS_TERMINATED,
+					`Terminal session ${session.id} does not report command results; shell integration is off, or not supported for its shell or shell arguments. Run without a sessionId instead`,
+				),
+			);
+		}
+
+		const manager = this.plugin.terminalManager;
+		const parser = new ShellIntegrationParser();
+
+		return new Promise((resolve, reject) => {
+			let output = "";
+			let started = false;
+			let timer: number | null = null;
+
+			const finish = () => {
+				if (timer !== null) window.clearTimeout(timer);
+				outputSubscription.dispose();
+				sessionSubscription.dispose();
+			};
+
+			const outputSubscription = manager.onOutput(session.id, (data) => {
+				for (const { text, event } of parser.parse(data)) {
+					if (started) output += text;
+
+					if (event?.type === "command-start" && !started) {
+						started = true;
+					} else if (event?.type === "command-end" && started) {
+						finish();
+						resolve({
+							exitCode: event.exitCode ?? 0,
+							output: stripAnsi(output).replace(/\r\n/g, "\n"),
+						});
+						return;
+					}
+				}
+			});
+
+			const sessionSubscription = manager.onSessionsChanged(() => {
+				const current = manager.getTerminal(session.id);
+				if (!current?.isActive) {
+					finish();
+					reject(
+						new TerminalPluginError(
+							TerminalErrorType.PROCESS_TERMINATED,
+							`Terminal session ${session.id} ended before the command finished`,
+						),
+					);
+				}
+			});
+
+			if (timeout && timeout > 0) {
+				timer = window.setTimeout(() => {
+					finish();
+					reject(
+						new TerminalPluginError(
+							TerminalErrorType.PROCESS_TERMINATED,
+							`Command timed out after ${timeout} ms: ${command}`,
+						),
+					);
+				}, timeout);
+			}
+
+			try {
+				manager.sendText(session.id, command, true);
+			} catch (error) {
+				finish();
+				reject(error);
+			}
+		});
+	}
+
+	private getSession(sessionId: string): TerminalSession {
+		const session = this.plugin.terminalManager.getTerminal(sessionId);
+		if (!session) {
+			throw new TerminalPluginError(
+				TerminalErrorType.NOT_FOUND,
+				`Terminal session ${sessionId} not found`,
+			);
+		}
+		return session;
+	}
+
+	/**
+	 * Find a settings profile by ID, then by name
+	 */
+	private resolveProfile(idOrName?: string): TerminalProfile | undefined {
+		if (!idOrName) return undefined;
+
+		const profile =
+			this.plugin.getProfile(idOrName) ??
+			this.plugin.settings?.profiles.find(
+				(candidate) => candidate.name === idOrName,
+			);
+		if (!profile) {
+			throw new TerminalPluginError(
+				TerminalErrorType.NOT_FOUND,
+				`Terminal profile not found: ${idOrName}`,
+			);
+		}
+		return profile;
+	}
+
+	/**
+	 * Merge explicit options over a settings profile
+	 */
+	private toPTYProfile(
+		profile: TerminalProfile | undefined,
+		options: Pick<TerminalOpenOptions, "shell" | "args" | "cwd" | "env">,
+	): PTYProfile {
+		return {
+			shell: options.shell || profile?.shell,
+			args: options.args ?? profile?.args,
+			cwd: options.cwd || profile?.cwd,
+			env: { ...profile?.env, ...options.env },
+		};
+	}
+}
@@ -8,6 +8,15 @@ export const PLUGIN_NAME = "Terminal";
 export const VIEW_TYPE_TERMINAL = "terminal-view";
 export const TERMINAL_VIEW_DISPLAY_TEXT = "Terminal";
 
+export const VIEW_TYPE_TERMINAL_SESSIONS = "terminal-sessions-view";
+export const TERMINAL_SESSIONS_DISPLAY_TEXT = "Terminal sessions";
+
+export const VIEW_TYPE_CAST_PLAYER = "terminal-cast-player";
+/** Extension of asciicast recordings opened in the cast player */
+export const CAST_FILE_EXTENSION = "cast";
+/** Code block language that renders an asciicast player */
+export const CAST_CODE_BLOCK_LANGUAGE = "terminal-replay";
+
 export const COMMAND_OPEN_TERMINAL = "open-terminal";
 export const COMMAND_OPEN_TERMINAL_NAME = "Open";
 
@@ -24,7 +33,29 @@ export const DEFAULT_TERMINAL_DIMENSIONS = {
 	rows: 24,
 };
 
+/** Fenced code block languages that get a "Run in terminal" button */
+export const RUNNABLE_CODE_LANGUAGES = [
+	"bash",
+	"sh",
+	"shell",
+	"zsh",
+	"fish",
+	"powershell",
+	"pwsh",
+	"ps1",
+	"cmd",
+	"bat",
+] as const;
+
+/** Shell integration commands remembered per terminal view */
+export const SHELL_COMMAND_HISTORY_LIMIT = 1000;
+
+/** Scrollback lines saved per terminal in workspace.json */
+export const PERSISTED_SCROLLBACK_LINES = 500;
+
 export const TERMINAL_BUFFER_SIZE = 1000;
+/** Characters of raw output kept per session for previews (e.g. reattach picker) */
+export const SESSION_OUTPUT_TAIL_SIZE = 4096;
 export const TERMINAL_SCROLL_BACK = 1000;
 
 export const PLATFORM_SHELLS = {
@@ -0,0 +1,50 @@
+/**
+ * ANSI escape sequence helpers
+ *
+ * Used wherever terminal output leaves the terminal as plain text
+ * (session previews, notes, exports).
+ *
+ * @module core/ansi
+ */
+
+/**
+ * Matches CSI, OSC (BEL or ST terminated) and two-byte escape sequences
+ */
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+/**
+ * Remove ANSI escape sequences from terminal output
+ */
+export function stripAnsi(text: string): string {
+	return text.replace(ANSI_PATTERN, "");
+}
+
+/**
+ * Get the last non-empty line of raw terminal output
+ * Carriage returns (progress bars, prompts redrawn in place) keep only the final overwrite
+ */
+export function getLastLine(text: string): string {
+	const lines = stripAnsi(text).split("\n");
+
+	for (let i = lines.length - 1; i >= 0; i--) {
+		const segments = lines[i].split("\r");
+		const line = segments[segments.length - 1] || segments[0];
+		if (line.trim()) {
+			return line.trim();
+		}
+	}
+
+	return "";
+}
+
+/**
+ * Track DECSET 2004 (bracketed paste) toggles in raw output
+ * @returns The mode set by the last toggle in the chunk, or null if none
+ */
+export function getBracketedPasteToggle(data: string): boolean | null {
+	const enabled = data.lastIndexOf("\x1b[?2004h");
+	const disabled = data.lastIndexOf("\x1b[?2004l");
+	if (enabled === -1 && disabled === -1) return null;
+	return enabled > disabled;
+}
@@ -0,0 +1,138 @@
+/**
+ * asciicast v2
+ *
+ * Recording and parsing of asciinema v2 files: a JSON header line
+ * followed by one `[time, code, data]` JSON array per event.
+ * See https://docs.asciinema.org/manual/asciicast/v2/
+ *
+ * @module core/asciicast
+ */
+
+/**
+ * First line of a cast file
+ */
+export interface AsciicastHeader {
+	version: 2;
+	width: number;
+	height: number;
+	/** Unix timestamp (seconds) of the start of the recording */
+	timestamp?: number;
+	/** Longest pause (seconds) kept during playback */
+	idle_time_limit?: number;
+	title?: string;
+	env?: Record<string, string>;
+}
+
+/**
+ * Recorded event: "o" output, "i" input, "r" resize ("COLSxROWS"), "m" marker
+ */
+export type AsciicastEvent = [time: number, code: string, data: string];
+
+export interface Asciicast {
+	header: AsciicastHeader;
+	events: AsciicastEvent[];
+}
+
+/**
+ * Collects PTY output and resizes with timestamps relative to the start
+ */
+export class AsciicastRecorder {
+	private header: AsciicastHeader;
+	private events: AsciicastEvent[] = [];
+	private startedAt = performance.now();
+	private size: string;
+
+	constructor(
+		width: number,
+		height: number,
+		options: { title?: string; env?: Record<string, string> } = {},
+	) {
+		this.header = {
+			version: 2,
+			width,
+			height,
+			timestamp: Math.floor(Date.now() / 1000),
+			...options,
+		};
+		this.size = `${width}x${height}`;
+	}
+
+	recordOutput(data: string): void {
+		this.events.push([this.elapsed(), "o", data]);
+	}
+
+	recordResize(cols: number, rows: number): void {
+		const size = `${cols}x${rows}`;
+		if (size === this.size) return;
+		this.size = size;
+		this.events.push([this.elapsed(), "r", size]);
+	}
+
+	/**
+	 * Seconds since the recording started
+	 */
+	get duration(): number {
+		return this.elapsed();
+	}
+
+	serialize(): string {
+		const lines = [JSON.stringify(this.header)];
+		for (const event of this.events) {
+			lines.push(JSON.stringify(event));
+		}
+		return lines.join("\n") + "\n";
+	}
+
+	private elapsed(): number {
+		return (
+			Math.round(((performance.now() - this.startedAt) / 1000) * 1e6) /
+			1e6
+		);
+	}
+}
+
+/**
+ * Parse a cast file
+ * Pauses longer than the header's idle_time_limit are shortened to it
+ *
+ * @throws Error when the header is not an asciicast v2 header
+ */
+export function parseAsciicast(text: string): Asciicast {
+	const lines = text.split(/\r?\n/).filter((line) => line.trim());
+	if (lines.length === 0) {
+		throw new Error("Empty cast file");
+	}
+
+	const header = JSON.parse(lines[0]) as AsciicastHeader;
+	if (header?.version !== 2 || !header.width || !header.height) {
+		throw new Error("Not an asciicast v2 file");
+	}
+
+	const idleLimit = header.idle_time_limit ?? Infinity;
+	const events: AsciicastEvent[] = [];
+	let previousTime = 0;
+	let time = 0;
+
+	for (const line of lines.slice(1)) {
+		let event: unknown;
+		try {
+			event = JSON.parse(line);
+		} catch {
+			continue; // Skip truncated lines (e.g. an interrupted recording)
+		}
+		if (
+			!Array.isArray(event) ||
+			typeof event[0] !== "number" ||
+			typeof event[1] !== "string" ||
+			typeof event[2] !== "string"
+		) {
+			continue;
+		}
+
+		time += Math.min(Math.max(0, event[0] - previousTime), idleLimit);
+		previousTime = event[0];
+		events.push([time, event[1], event[2]]);
+	}
+
+	return { header, events };
+}
@@ -0,0 +1,299 @@
+/**
+ * Command Decorations
+ *
+ * Gutter marks for commands reported by shell integration: green when the
+ * command exited with 0, red otherwise. Hovering a mark shows a card with
+ * the exit code and duration.
+ *
+ * xterm.js draws the marks through its decoration API. ghostty-web has no
+ * decoration API, so an overlay is laid over the canvas and repositioned
+ * on scroll and render.
+ *
+ * @module core/command-decorations
+ */
+
+import type { Terminal as XTerminal, IDecoration, IMarker } from "@xterm/xterm";
+import type { Terminal as GhosttyTerminal } from "ghostty-web";
+import type { ShellCommand } from "@/types";
+import { formatDuration } from "@/utils";
+
+/** Width of a gutter mark in pixels */
+const MARK_WIDTH = 3;
+
+export interface CommandDecorationColors {
+	success: string;
+	failure: string;
+}
+
+/**
+ * Common surface of the xterm.js and Ghostty decorators
+ */
+export interface CommandDecorator {
+	/** Add a mark for a finished command */
+	decorate(command: ShellCommand): void;
+	updateColors(colors: CommandDecorationColors): void;
+	dispose(): void;
+}
+
+function isSuccess(command: ShellCommand): boolean {
+	return command.exitCode === undefined || command.exitCode === 0;
+}
+
+/**
+ * Floating card with the exit code and duration of a command
+ * Lives in the anchor's document body so it is not clipped by the
+ * terminal container and follows the terminal into pop-out windows
+ */
+class CommandHoverCard {
+	private el: HTMLElement | null = null;
+
+	show(anchor: HTMLElement, command: ShellCommand): void {
+		this.hide();
+
+		const card = anchor.doc.body.createDiv({
+			cls: "terminal-command-card",
+		});
+		card.toggleClass("is-failure", !isSuccess(command));
+
+		card.createDiv({
+			cls: "terminal-command-card-status",
+			text:
+				command.exitCode === undefined
+					? "Finished"
+					: `Exit code ${command.exitCode}`,
+		});
+		if (command.startedAt && command.finishedAt) {
+			card.createDiv({
+				text: `Took ${formatDuration(command.finishedAt - command.startedAt)}`,
+			});
+		}
+		if (command.finishedAt) {
+			card.createDiv({
+				cls: "terminal-command-card-time",
+				text: `Finished at ${new Date(command.finishedAt).toLocaleTimeString()}`,
+			});
+		}
+
+		const rect = anchor.getBoundingClientRect();
+		card.style.left = `${rect.right + 6}px`;
+		card.style.top = `${rect.top}px`;
+		this.el = card;
+	}
+
+	hide(): void {
+		this.el?.remove();
+		this.el = null;
+	}
+}
+
+/**
+ * Gutter marks via the xterm.js decoration API
+ */
+export class XtermCommandDecorator implements CommandDecorator {
+	private terminal: XTerminal;
+	private colors: CommandDecorationColors;
+	private decorations: Array<{
+		decoration: IDecoration;
+		command: ShellCommand;
+	}> = [];
+	private card = new CommandHoverCard();
+
+	constructor(terminal: XTerminal, colors: CommandDecorationColors) {
+		this.terminal = terminal;
+		this.colors = colors;
+	}
+
+	decorate(command: ShellCommand): void {
+		// Only real xterm markers can anchor a decoration
+		const marker = command.prompt as IMarker;
+		if (!("onDispose" in marker) || marker.isDisposed || marker.line < 0) {
+			return;
+		}
+
+		const decoration = this.terminal.registerDecoration({
+			marker,
+			x: 0,
+			width: 1,
+			layer: "top",
+			overviewRulerOptions: {
+				color: this.getColor(command),
+				position: "left",
+			},
+		});
+		if (!decoration) return;
+
+		const entry = { decoration, command };
+		this.decorations.push(entry);
+
+		decoration.onRender((element) => {
+			element.style.width = `${MARK_WIDTH}px`;
+			element.style.marginLeft = `-${MARK_WIDTH + 2}px`;
+			element.style.borderRadius = "1px";
+			element.style.background = this.getColor(command);
+			element.style.pointerEvents = "auto";
+			element.style.cursor = "default";
+			element.onmouseenter = () => this.card.show(element, command);
+			element.onmouseleave = () => this.card.hide();
+		});
+
+		decoration.onDispose(() => {
+			this.decorations.remove(entry);
+		});
+	}
+
+	updateColors(colors: CommandDecorationColors): void {
+		this.colors = colors;
+		for (const { decoration, command } of this.decorations) {
+			if (decoration.element) {
+				decoration.element.style.background = this.getColor(command);
+			}
+		}
+	}
+
+	dispose(): void {
+		this.card.hide();
+		for (const { decoration } of [...this.decorations]) {
+			decoration.dispose();
+		}
+		this.decorations = [];
+	}
+
+	private getColor(command: ShellCommand): string {
+		return isSuccess(command) ? this.colors.success : this.colors.failure;
+	}
+}
+
+/**
+ * Gutter marks drawn in an overlay above the ghostty-web canvas
+ */
+export class GhosttyCommandDecorator implements CommandDecorator {
+	private terminal: GhosttyTerminal;
+	private container: HTMLElement;
+	private colors: CommandDecorationColors;
+	private commands: ShellCommand[] = [];
+	private overlay: HTMLElement;
+	private card = new CommandHoverCard();
+	private disposables: Array<{ dispose(): void }> = [];
+	private frame: number | null = null;
+	private layout = "";
+
+	/**
+	 * @param terminal - ghostty-web Terminal instance
+	 * @param container - Element the terminal was opened in
+	 */
+	constructor(
+		terminal: GhosttyTerminal,
+		container: HTMLElement,
+		colors: CommandDecorationColors,
+	) {
+		this.terminal = terminal;
+		this.container = container;
+		this.colors = colors;
+
+		if (getComputedStyle(container).position === "static") {
+			container.style.position = "relative";
+		}
+
+		this.overlay = container.createDiv();
+		this.overlay.style.position = "absolute";
+		this.overlay.style.inset = "0";
+		this.overlay.style.pointerEvents = "none";
+		this.overlay.style.overflow = "hidden";
+
+		this.disposables.push(
+			terminal.onScroll(() => this.scheduleUpdate()),
+			terminal.onRender(() => this.scheduleUpdate()),
+			terminal.onResize(() => this.scheduleUpdate()),
+		);
+	}
+
+	decorate(command: ShellCommand): void {
+		this.commands.push(command);
+		this.scheduleUpdate();
+	}
+
+	updateColors(colors: CommandDecorationColors): void {
+		this.colors = colors;
+		this.scheduleUpdate();
+	}
+
+	dispose(): void {
+		if (this.frame !== null) cancelAnimationFrame(this.frame);
+		for (const disposable of this.disposables) disposable.dispose();
+		this.disposables = [];
+		this.card.hide();
+		this.overlay.remove();
+		this.commands = [];
+	}
+
+	private scheduleUpdate(): void {
+		if (this.frame !== null) return;
+		this.frame = requestAnimationFrame(() => {
+			this.frame = null;
+			this.update();
+		});
+	}
+
+	/**
+	 * Redraw the marks for prompts inside the viewport
+	 */
+	private update(): void {
+		const canvas = this.container.querySelector("canvas");
+		const wasmTerm = this.terminal.wasmTerm;
+		if (!canvas || !wasmTerm || this.terminal.rows === 0) return;
+
+		// Drop commands whose rows have been trimmed from the scrollback
+		const scrollback = wasmTerm.getScrollbackLength();
+		const totalRows = scrollback + this.terminal.rows;
+		this.commands = this.commands.filter(
+			(c) => c.prompt.line >= 0 && c.prompt.line < totalRows,
+		);
+
+		const canvasRect = canvas.getBoundingClientRect();
+		const containerRect = this.container.getBoundingClientRect();
+		const cellHeight = canvasRect.height / this.terminal.rows;
+		const left = canvasRect.left - containerRect.left;
+		const top = canvasRect.top - containerRect.top;
+
+		// getViewportY() counts lines scrolled back from the bottom
+		const firstRow = scrollback - this.terminal.getViewportY();
+
+		// onRender fires for every frame, only rebuild when the layout moved
+		const layout = [
+			firstRow,
+			this.commands.length,
+			// Rows move up without the viewport moving once lines are dropped
+			this.commands[0]?.prompt.line,
+			canvasRect.height,
+			left,
+			top,
+			this.colors.success,
+			this.colors.failure,
+		].join(":");
+		if (layout === this.layout) return;
+		this.layout = layout;
+		this.card.hide();
+		this.overlay.empty();
+
+		for (const command of this.commands) {
+			const row = command.prompt.line - firstRow;
+			if (row < 0 || row >= this.terminal.rows) continue;
+
+			const mark = this.overlay.createDiv();
+			mark.style.position = "absolute";
+			mark.style.left = `${Math.max(0, left - MARK_WIDTH - 2)}px`;
+			mark.style.top = `${top + row * cellHeight}px`;
+			mark.style.width = `${MARK_WIDTH}px`;
+			mark.style.height = `${cellHeight}px`;
+			mark.style.borderRadius = "1px";
+			mark.style.background = isSuccess(command)
+				? this.colors.success
+				: this.colors.failure;
+			mark.style.pointerEvents = "auto";
+			mark.addEventListener("mouseenter", () =>
+				this.card.show(mark, command),
+			);
+			mark.addEventListener("mouseleave", () => this.card.hide());
+		}
+	}
+}
@@ -0,0 +1,212 @@
+/**
+ * One-off Commands
+ *
+ * Runs a single command in its own PTY (`shell -c command` or the
+ * shell's equivalent) or as a plain child process, and resolves with its
+ * exit code and output once the process exits. No view or session is
+ * created.
+ *
+ * @module core/command-runner
+ */
+
+import { spawn } from "child_process";
+import { PTYProfile, TerminalPluginError, TerminalErrorType } from "@/types";
+import type { PTYManager } from "./pty-manager";
+import { stripAnsi } from "./ansi";
+
+export interface CommandRunOptions {
+	/** Shell, env and cwd overrides (profile args are replaced) */
+	profile?: PTYProfile;
+	/** Kill the command after this many milliseconds */
+	timeout?: number;
+	/** Kill the command when this signal aborts */
+	signal?: AbortSignal;
+	/** Raw output as it arrives (stdout and stderr interleaved) */
+	onData?: (data: string) => void;
+}
+
+export interface CommandRunResult {
+	exitCode: number;
+	/** Output with ANSI escapes removed and CRLF normalized to LF */
+	output: string;
+	/** A PTY has a single stream, so PTY runs report everything here */
+	stdout: string;
+	/** Always empty for PTY runs */
+	stderr: string;
+}
+
+/**
+ * Arguments that make a shell run one command and exit
+ */
+export function getCommandArgs(shell: string, command: string): string[] {
+	const shellName = (shell.split(/[\\/]/).pop() || "")
+		.toLowerCase()
+		.replace(/\.exe$/, "");
+
+	switch (shellName) {
+		case "cmd":
+			return ["/d", "/s", "/c", command];
+		case "pwsh":
+		case "powershell":
+			return ["-NoLogo", "-Command", command];
+		default:
+			return ["-c", command];
+	}
+}
+
+/**
+ * Run a command to completion in a dedicated PTY
+ *
+ * @throws TerminalPluginError when the PTY cannot be created, the command
+ * exceeds its timeout or the signal aborts
+ */
+export function runCommandInPTY(
+	ptyManager: PTYManager,
+	command: string,
+	options: CommandRunOptions = {},
+): Promise<CommandRunResult> {
+	const ptyOptions = ptyManager.getDefaultOptions(options.profile);
+	ptyOptions.args = getCommandArgs(ptyOptions.shell, command);
+
+	const pty = ptyManager.createPTY(ptyOptions);
+	let output = "";
+
+	return new Promise((resolve, reject) => {
+		const stop = watchLimits(options, (reason) => {
+			ptyManager.destroyPTY(pty);
+			reject(limitError(reason, command, output));
+		});
+
+		pty.on("data", (data: string) => {
+			output += data;
+			options.onData?.(data);
+		});
+
+		pty.on("exit", (exitCode: number) => {
+			stop();
+			const text = normalizeOutput(output);
+			resolve({ exitCode, output: text, stdout: text, stderr: "" });
+		});
+	});
+}
+
+/**
+ * Run a command to completion as a child process without a TTY
+ * stdout and stderr are collected separately
+ *
+ * @throws TerminalPluginError when the shell cannot be started, the
+ * command exceeds its timeout or the signal aborts
+ */
+export function runCommandInProcess(
+	ptyManager: PTYManager,
+	command: string,
+	options: CommandRunOptions = {},
+): Promise<CommandRunResult> {
+	const { shell, cwd, env } = ptyManager.getDefaultOptions(options.profile);
+	let output = "";
+	let stdout = "";
+	let stderr = "";
+
+	return new Promise((resolve, reject) => {
+		const child = spawn(shell, getCommandArgs(shell, command), {
+			cwd,
+			env,
+			windowsHide: true,
+		});
+
+		const stop = watchLimits(options, (reason) => {
+			child.kill();
+			reject(limitError(reason, command, output));
+		});
+
+		child.stdout.setEncoding("utf8");
+		child.stderr.setEncoding("utf8");
+		child.stdout.on("data", (data: string) => {
+			stdout += data;
+			output += data;
+			options.onData?.(data);
+		});
+		child.stderr.on("data", (data: string) => {
+			stderr += data;
+			output += data;
+			options.onData?.(data);
+		});
+
+		child.on("error", (error) => {
+			stop();
+			reject(
+				new TerminalPluginError(
+					TerminalErrorType.SHELL_NOT_FOUND,
+					`Failed to start ${shell}: ${error.message}`,
+					error,
+					{ command },
+				),
+			);
+		});
+
+		child.on("close", (code) => {
+			stop();
+			resolve({
+				// Killed by a signal from outside the plugin
+				exitCode: code ?? 1,
+				output: normalizeOutput(output),
+				stdout: normalizeOutput(stdout),
+				stderr: normalizeOutput(stderr),
+			});
+		});
+	});
+}
+
+/**
+ * Call onLimit once when the timeout elapses or the signal aborts
+ * Returns a function that stops watching
+ */
+function watchLimits(
+	options: CommandRunOptions,
+	onLimit: (reason: string) => void,
+): () => void {
+	let timer: number | null = null;
+
+	const stop = () => {
+		if (timer !== null) window.clearTimeout(timer);
+		timer = null;
+		options.signal?.removeEventListener("abort", onAbort);
+	};
+	const onAbort = () => {
+		stop();
+		onLimit("Command cancelled");
+	};
+
+	if (options.signal?.aborted) {
+		// Defer so the caller's handlers are attached first
+		window.setTimeout(onAbort, 0);
+		return stop;
+	}
+	options.signal?.addEventListener("abort", onAbort);
+
+	if (options.timeout && options.timeout > 0) {
+		timer = window.setTimeout(() => {
+			stop();
+			onLimit(`Command timed out after ${options.timeout} ms`);
+		}, options.timeout);
+	}
+
+	return stop;
+}
+
+function limitError(
+	reason: string,
+	command: string,
+	output: string,
+): TerminalPluginError {
+	return new TerminalPluginError(
+		TerminalErrorType.PROCESS_TERMINATED,
+		`${reason}: ${command}`,
+		undefined,
+		{ command, output: normalizeOutput(output) },
+	);
+}
+
+function normalizeOutput(output: string): string {
+	return stripAnsi(output).replace(/\r\n/g, "\n");
+}
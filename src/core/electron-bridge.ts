@@ -45,6 +45,13 @@ export class ElectronBridge extends BaseElectronBridge {
 		console.log("🗂️ Vault path set to:", vaultPath);
 	}
 
+	/**
+	 * Get the plugin directory path, if set
+	 */
+	getPluginDirectory(): string | null {
+		return this._pluginDirectory;
+	}
+
 	/**
 	 * Check if running in Electron environment
 	 */
@@ -0,0 +1,139 @@
+/**
+ * Terminal Fonts
+ *
+ * Builds the font stack from the chosen family and the fallback list
+ * (CJK, symbols, Nerd Font icons), checks whether a family is installed
+ * by measuring glyph widths, and finds ligature candidates for the xterm
+ * character joiner.
+ *
+ * @module core/fonts
+ */
+
+/**
+ * Fallback fonts tried after the terminal font, for glyphs it lacks:
+ * Nerd Font icons, CJK and emoji on macOS, Windows and Linux
+ */
+export const DEFAULT_FONT_FALLBACK = [
+	"Symbols Nerd Font Mono",
+	"PingFang SC",
+	"Microsoft YaHei",
+	"Noto Sans Mono CJK SC",
+	"Apple Color Emoji",
+	"Segoe UI Emoji",
+	"Noto Color Emoji",
+].join(", ");
+
+/** Font weights offered in the settings, "" for the renderer default */
+export const FONT_WEIGHTS: Record<string, string> = {
+	"": "Default",
+	"300": "Light",
+	normal: "Normal",
+	"500": "Medium",
+	"600": "Semibold",
+	bold: "Bold",
+	"800": "Extra bold",
+};
+
+const GENERIC_FAMILIES = [
+	"serif",
+	"sans-serif",
+	"monospace",
+	"cursive",
+	"fantasy",
+	"system-ui",
+	"ui-monospace",
+	"ui-serif",
+	"ui-sans-serif",
+	"emoji",
+	"math",
+];
+
+/** Wide and narrow glyphs, so most fonts differ from the generic ones */
+const FONT_TEST_TEXT = "mmmmmmmmmmlli10OW@#";
+
+/**
+ * Runs of operator characters that coding fonts draw as one ligature
+ * ("->", "=>", "!==", "</>"); the font decides which ones it joins
+ */
+const LIGATURE_PATTERN = /[-<>=!:;.+*/\\|&~^%?#$]{2,}/g;
+
+/**
+ * Family names of a CSS font stack, without quotes
+ */
+export function parseFontList(value: string): string[] {
+	return value
+		.split(",")
+		.map((name) => name.trim().replace(/^(["'])(.*)\1$/, "$2"))
+		.filter(Boolean);
+}
+
+/**
+ * CSS font stack of the terminal font followed by the fallback fonts,
+ * ending in monospace. Names are quoted and listed once
+ */
+export function buildFontFamily(family: string, fallback: string): string {
+	const names: string[] = [];
+	for (const name of [
+		...parseFontList(family),
+		...parseFontList(fallback),
+		"monospace",
+	]) {
+		if (!names.some((n) => n.toLowerCase() === name.toLowerCase())) {
+			names.push(name);
+		}
+	}
+	return names
+		.map((name) => (isGenericFont(name) ? name : `"${name}"`))
+		.join(", ");
+}
+
+/**
+ * Whether a font family is installed
+ * The text is measured with the family in front of each generic family;
+ * if every width matches the generic one, the family was never used
+ */
+export function isFontAvailable(family: string): boolean {
+	if (isGenericFont(family)) return true;
+
+	const ctx = activeDocument.createElement("canvas").getContext("2d");
+	if (!ctx) return true;
+
+	const measure = (font: string): number => {
+		ctx.font = `72px ${font}`;
+		return ctx.measureText(FONT_TEST_TEXT).width;
+	};
+	return ["monospace", "serif", "sans-serif"].some(
+		(generic) => measure(`"${family}", ${generic}`) !== measure(generic),
+	);
+}
+
+/**
+ * Whether a name is a generic family such as monospace
+ */
+export function isGenericFont(name: string): boolean {
+	return GENERIC_FAMILIES.includes(name.toLowerCase());
+}
+
+/**
+ * Named (non-generic) families of a font stack that are installed
+ */
+export function getInstalledFonts(value: string): string[] {
+	return parseFontList(value).filter(
+		(family) => !isGenericFont(family) && isFontAvailable(family),
+	);
+}
+
+/**
+ * Ranges of a line to draw as one unit so the font can apply its
+ * ligatures, for xterm's registerCharacterJoiner()
+ * Fallback for when the ligatures addon cannot be loaded
+ */
+export function findLigatureRanges(text: string): [number, number][] {
+	const ranges: [number, number][] = [];
+	LIGATURE_PATTERN.lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = LIGATURE_PATTERN.exec(text))) {
+		ranges.push([match.index, match.index + match[0].length]);
+	}
+	return ranges;
+}
@@ -0,0 +1,219 @@
+/**
+ * Background Commands
+ *
+ * Runs commands without a terminal view. Running commands are listed in
+ * a status bar item (click to cancel) and each result is reported in a
+ * notice with a "Show in terminal" button.
+ *
+ * @module core/headless-runner
+ */
+
+import { Menu, Notice, setIcon } from "obsidian";
+import type { PTYProfile } from "@/types";
+import { formatDuration } from "@/utils";
+import type { PTYManager } from "./pty-manager";
+import {
+	CommandRunResult,
+	runCommandInProcess,
+	runCommandInPTY,
+} from "./command-runner";
+
+/** Successful runs are reported briefly; failures stay until dismissed */
+const SUCCESS_NOTICE_MS = 8000;
+
+/** Lines of output quoted in the notice of a failed run */
+const FAILURE_EXCERPT_LINES = 3;
+
+export interface HeadlessRunOptions {
+	/** Shell, env and cwd overrides */
+	profile?: PTYProfile;
+	/** Kill the command after this many milliseconds */
+	timeout?: number;
+	/** Run without a TTY so stdout and stderr are kept apart */
+	pipe?: boolean;
+	/** Report the result in a notice (default true) */
+	notify?: boolean;
+}
+
+/**
+ * A background command, running or finished
+ */
+export interface HeadlessRun {
+	command: string;
+	cwd: string;
+	/** Ran as a child process rather than in a PTY */
+	pipe: boolean;
+	startedAt: number;
+	finishedAt?: number;
+	/** Raw output, as a terminal would display it */
+	output: string;
+	result?: CommandRunResult;
+	error?: Error;
+}
+
+/**
+ * One-line outcome of a finished run, e.g. "exit 1 after 2.3 s"
+ */
+export function describeHeadlessRun(run: HeadlessRun): string {
+	if (!run.result) return run.error?.message ?? "Failed";
+
+	const duration = formatDuration(
+		(run.finishedAt ?? Date.now()) - run.startedAt,
+	);
+	return `exit ${run.result.exitCode} after ${duration}`;
+}
+
+export class HeadlessRunner {
+	private ptyManager: PTYManager;
+	private statusBarEl: HTMLElement;
+	private onShowInTerminal: (run: HeadlessRun) => void;
+	private running = new Map<HeadlessRun, AbortController>();
+
+	constructor(
+		ptyManager: PTYManager,
+		statusBarEl: HTMLElement,
+		onShowInTerminal: (run: HeadlessRun) => void,
+	) {
+		this.ptyManager = ptyManager;
+		this.statusBarEl = statusBarEl;
+		this.onShowInTerminal = onShowInTerminal;
+
+		statusBarEl.addClass("mod-clickable", "terminal-headless-status");
+		statusBarEl.addEventListener("click", (evt) => this.showMenu(evt));
+		this.updateStatusBar();
+	}
+
+	/**
+	 * Run a command to completion in the background
+	 *
+	 * @throws TerminalPluginError when the command cannot start, times out
+	 * or is cancelled (the notice is shown either way)
+	 */
+	async run(
+		command: string,
+		options: HeadlessRunOptions = {},
+	): Promise<CommandRunResult> {
+		const run: HeadlessRun = {
+			command,
+			cwd: this.ptyManager.getDefaultOptions(options.profile).cwd,
+			pipe: !!options.pipe,
+			startedAt: Date.now(),
+			output: "",
+		};
+		const controller = new AbortController();
+		this.running.set(run, controller);
+		this.updateStatusBar();
+
+		const runCommand = run.pipe ? runCommandInProcess : runCommandInPTY;
+		try {
+			run.result = await runCommand(this.ptyManager, command, {
+				profile: options.profile,
+				timeout: options.timeout,
+				signal: controller.signal,
+				onData: (data) => {
+					run.output += data;
+				},
+			});
+			return run.result;
+		} catch (error) {
+			run.error =
+				error instanceof Error ? error : new Error(String(error));
+			throw error;
+		} finally {
+			run.finishedAt = Date.now();
+			this.running.delete(run);
+			this.updateStatusBar();
+			if (options.notify !== false) {
+				this.showResult(run);
+			}
+		}
+	}
+
+	/**
+	 * Cancel every running command (e.g. on unload)
+	 */
+	cancelAll(): void {
+		for (const controller of this.running.values()) {
+			controller.abort();
+		}
+	}
+
+	private updateStatusBar(): void {
+		const el = this.statusBarEl;
+		el.empty();
+		el.toggle(this.running.size > 0);
+		if (this.running.size === 0) return;
+
+		setIcon(
+			el.createSpan({ cls: "terminal-headless-status-icon" }),
+			"loader",
+		);
+		const [first] = this.running.keys();
+		el.createSpan({
+			cls: "terminal-headless-status-text",
+			text:
+				this.running.size === 1
+					? first.command
+					: `${this.running.size} commands`,
+		});
+		el.setAttr("aria-label", "Running in background, click to cancel");
+		el.setAttr("data-tooltip-position", "top");
+	}
+
+	private showMenu(evt: MouseEvent): void {
+		if (this.running.size === 0) return;
+
+		const menu = new Menu();
+		for (const [run, controller] of this.running) {
+			menu.addItem((item) =>
+				item
+					.setTitle(`Cancel "${run.command}"`)
+					.setIcon("square")
+					.onClick(() => controller.abort()),
+			);
+		}
+		menu.showAtMouseEvent(evt);
+	}
+
+	private showResult(run: HeadlessRun): void {
+		const failed = run.result?.exitCode !== 0;
+		let notice: Notice | null = null;
+
+		const fragment = createFragment((frag) => {
+			const el = frag.createDiv({
+				cls: "terminal-headless-notice",
+			});
+			el.toggleClass("is-failure", failed);
+			el.createDiv({
+				cls: "terminal-headless-notice-command",
+				text: run.command,
+			});
+			el.createDiv({
+				cls: "terminal-headless-notice-status",
+				text: describeHeadlessRun(run),
+			});
+
+			if (failed && run.result) {
+				const excerpt = (run.result.stderr || run.result.output)
+					.trimEnd()
+					.split("\n")
+					.slice(-FAILURE_EXCERPT_LINES)
+					.join("\n");
+				if (excerpt) {
+					el.createEl("pre", {
+						cls: "terminal-headless-notice-output",
+						text: excerpt,
+					});
+				}
+			}
+
+			const button = el.createEl("button", { text: "Show in terminal" });
+			button.addEventListener("click", () => {
+				notice?.hide();
+				this.onShowInTerminal(run);
+			});
+		});
+
+		notice = new Notice(fragment, failed ? 0 : SUCCESS_NOTICE_MS);
+	}
+}
@@ -4,4 +4,18 @@ export * from "./pty-manager";
 export * from "./electron-bridge";
 export * from "./native-binary-manager";
 export * from "./themes";
+export * from "./theme-formats";
+export * from "./theme-colors";
 export * from "./obsidian-link-provider";
+export * from "./ansi";
+export * from "./shell-integration";
+export * from "./command-decorations";
+export * from "./asciicast";
+export * from "./command-runner";
+export * from "./headless-runner";
+export * from "./snippets";
+export * from "./keybindings";
+export * from "./paste";
+export * from "./fonts";
+export * from "./terminal-search";
+export * from "./row-markers";
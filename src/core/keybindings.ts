@@ -0,0 +1,275 @@
+/**
+ * Terminal Keybindings
+ *
+ * Actions a key can trigger while a terminal has focus, their default
+ * keys and the key format stored in the settings ("Mod+Shift+F"). As in
+ * Obsidian hotkeys, "Mod" is Cmd on macOS and Ctrl elsewhere. Keys that
+ * are bound to no action go to the shell, unless they are listed as keys
+ * sent to Obsidian.
+ *
+ * @module core/keybindings
+ */
+
+import { Modifier, Platform } from "obsidian";
+
+export type TerminalKeyAction =
+	| "copy"
+	| "paste"
+	| "search"
+	| "close-search"
+	| "clear"
+	| "select-all"
+	| "split-right"
+	| "split-down"
+	| "previous-prompt"
+	| "next-prompt"
+	| "previous-terminal"
+	| "next-terminal"
+	| "new-terminal"
+	| "zoom-in"
+	| "zoom-out"
+	| "zoom-reset";
+
+export interface TerminalKeyActionInfo {
+	name: string;
+	/** Key used until the action is rebound, empty for none */
+	defaultKey: string;
+	/** Command exposing the action, if it is not covered by another one */
+	commandId?: string;
+}
+
+/** Action key (e.g. "copy") to key string; empty disables the action */
+export type TerminalKeymap = Record<TerminalKeyAction, string>;
+
+export const TERMINAL_KEY_ACTIONS: Record<
+	TerminalKeyAction,
+	TerminalKeyActionInfo
+> = {
+	copy: {
+		name: "Copy selection",
+		defaultKey: "Mod+C",
+		commandId: "copy-selection",
+	},
+	paste: { name: "Paste", defaultKey: "Mod+V", commandId: "paste" },
+	search: {
+		name: "Find in terminal",
+		defaultKey: "Mod+F",
+		commandId: "find-in-terminal",
+	},
+	"close-search": {
+		name: "Close find",
+		defaultKey: "Escape",
+		commandId: "close-find",
+	},
+	clear: {
+		name: "Clear terminal",
+		defaultKey: "",
+		commandId: "clear-terminal",
+	},
+	"select-all": {
+		name: "Select all",
+		defaultKey: "",
+		commandId: "select-all",
+	},
+	"split-right": {
+		name: "Split right",
+		defaultKey: "",
+		commandId: "split-right",
+	},
+	"split-down": {
+		name: "Split down",
+		defaultKey: "",
+		commandId: "split-down",
+	},
+	"previous-prompt": {
+		name: "Jump to previous prompt",
+		defaultKey: "Mod+Shift+ArrowUp",
+		commandId: "jump-to-previous-prompt",
+	},
+	"next-prompt": {
+		name: "Jump to next prompt",
+		defaultKey: "Mod+Shift+ArrowDown",
+		commandId: "jump-to-next-prompt",
+	},
+	"previous-terminal": {
+		name: "Focus previous terminal",
+		defaultKey: "",
+		commandId: "focus-previous-terminal",
+	},
+	"next-terminal": {
+		name: "Focus next terminal",
+		defaultKey: "",
+		commandId: "focus-next-terminal",
+	},
+	// The "Open new terminal" command already exists
+	"new-terminal": { name: "New terminal", defaultKey: "" },
+	"zoom-in": { name: "Zoom in", defaultKey: "Mod+=", commandId: "zoom-in" },
+	"zoom-out": {
+		name: "Zoom out",
+		defaultKey: "Mod+-",
+		commandId: "zoom-out",
+	},
+	"zoom-reset": {
+		name: "Reset zoom",
+		defaultKey: "Mod+0",
+		commandId: "reset-zoom",
+	},
+};
+
+export const TERMINAL_KEY_ACTION_IDS = Object.keys(
+	TERMINAL_KEY_ACTIONS,
+) as TerminalKeyAction[];
+
+/**
+ * Default key of every action
+ */
+export function getDefaultKeymap(): TerminalKeymap {
+	const keymap = {} as TerminalKeymap;
+	for (const action of TERMINAL_KEY_ACTION_IDS) {
+		keymap[action] = TERMINAL_KEY_ACTIONS[action].defaultKey;
+	}
+	return keymap;
+}
+
+export interface Keybinding {
+	modifiers: Modifier[];
+	/** Upper-case character or KeyboardEvent.key name ("ArrowUp") */
+	key: string;
+}
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+	mod: "Mod",
+	ctrl: "Ctrl",
+	control: "Ctrl",
+	meta: "Meta",
+	cmd: "Meta",
+	alt: "Alt",
+	option: "Alt",
+	shift: "Shift",
+};
+
+/** Modifier order used when writing key strings */
+const MODIFIER_ORDER: Modifier[] = ["Mod", "Ctrl", "Meta", "Alt", "Shift"];
+
+const MODIFIER_KEYS = ["Shift", "Control", "Alt", "Meta", "CapsLock"];
+
+const MAC_SYMBOLS: Record<Modifier, string> = {
+	Mod: "⌘",
+	Meta: "⌘",
+	Ctrl: "⌃",
+	Alt: "⌥",
+	Shift: "⇧",
+};
+
+const KEY_SYMBOLS: Record<string, string> = {
+	ArrowUp: "↑",
+	ArrowDown: "↓",
+	ArrowLeft: "←",
+	ArrowRight: "→",
+};
+
+/**
+ * Parse a key string such as "Mod+Shift+F"
+ * Returns null for empty or malformed strings
+ */
+export function parseKeybinding(value: string): Keybinding | null {
+	const parts = value
+		.split("+")
+		.map((part) => part.trim())
+		.filter(Boolean);
+	const key = parts.pop();
+	if (!key) return null;
+
+	const modifiers: Modifier[] = [];
+	for (const part of parts) {
+		const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+		if (!modifier) return null;
+		if (!modifiers.includes(modifier)) modifiers.push(modifier);
+	}
+	return { modifiers, key: normalizeKeyName(key) };
+}
+
+/**
+ * Key string of a keydown event, or null for a lone modifier key
+ */
+export function keybindingFromEvent(event: KeyboardEvent): string | null {
+	if (MODIFIER_KEYS.includes(event.key)) return null;
+
+	const modifiers: Modifier[] = [];
+	if (Platform.isMacOS) {
+		if (event.metaKey) modifiers.push("Mod");
+		if (event.ctrlKey) modifiers.push("Ctrl");
+	} else {
+		if (event.ctrlKey) modifiers.push("Mod");
+		if (event.metaKey) modifiers.push("Meta");
+	}
+	if (event.altKey) modifiers.push("Alt");
+	if (event.shiftKey) modifiers.push("Shift");
+
+	return [...modifiers, getEventKey(event)].join("+");
+}
+
+/**
+ * Whether a keyboard event is the key a key string describes
+ * Modifiers must match exactly, so Mod+C does not fire on Mod+Shift+C
+ */
+export function matchesKeybinding(
+	event: KeyboardEvent,
+	value: string,
+): boolean {
+	const binding = parseKeybinding(value);
+	if (!binding) return false;
+
+	const wants = (modifier: Modifier) => binding.modifiers.includes(modifier);
+	const ctrl = wants("Ctrl") || (wants("Mod") && !Platform.isMacOS);
+	const meta = wants("Meta") || (wants("Mod") && Platform.isMacOS);
+	return (
+		event.ctrlKey === ctrl &&
+		event.metaKey === meta &&
+		event.altKey === wants("Alt") &&
+		event.shiftKey === wants("Shift") &&
+		getEventKey(event) === binding.key
+	);
+}
+
+/**
+ * Key string for display, with the platform's modifier names
+ * ("⌘⇧F" on macOS, "Ctrl+Shift+F" elsewhere)
+ */
+export function formatKeybinding(value: string): string {
+	const binding = parseKeybinding(value);
+	if (!binding) return "";
+
+	const modifiers = MODIFIER_ORDER.filter((modifier) =>
+		binding.modifiers.includes(modifier),
+	);
+	const key = KEY_SYMBOLS[binding.key] ?? binding.key;
+	if (Platform.isMacOS) {
+		return (
+			modifiers.map((modifier) => MAC_SYMBOLS[modifier]).join("") + key
+		);
+	}
+	return [
+		...modifiers.map((modifier) =>
+			modifier === "Mod" ? "Ctrl" : modifier,
+		),
+		key,
+	].join("+");
+}
+
+/**
+ * Layout-independent key of an event for letters and digits, so Shift or
+ * Option (which change event.key) do not break the match
+ */
+function getEventKey(event: KeyboardEvent): string {
+	if (/^[a-z0-9]$/i.test(event.key)) return event.key.toUpperCase();
+
+	const match = /^(?:Key|Digit)([A-Z0-9])$/.exec(event.code);
+	if (match) return match[1];
+	return normalizeKeyName(event.key);
+}
+
+function normalizeKeyName(key: string): string {
+	if (key === " " || key.toLowerCase() === "space") return "Space";
+	return key.length === 1 ? key.toUpperCase() : key;
+}
@@ -0,0 +1,102 @@
+/**
+ * Paste Handling
+ *
+ * Every paste into a terminal (keyboard, context menu, native paste
+ * events) goes through preparePaste(): optional trimming and line ending
+ * conversion, then bracketed paste (DECSET 2004) when the shell has
+ * enabled it. getPasteWarnings() lists what should be confirmed first.
+ *
+ * @module core/paste
+ */
+
+/**
+ * Line endings pasted text is sent with
+ * - enter: CR, what the Enter key sends (terminal default)
+ * - lf / crlf: Unix or Windows line endings
+ * - keep: as copied
+ */
+export type PasteLineEnding = "enter" | "lf" | "crlf" | "keep";
+
+export interface PasteOptions {
+	/** Drop trailing line breaks so the last line is not run on paste */
+	trimTrailingNewlines: boolean;
+	lineEnding: PasteLineEnding;
+	/** Whether the shell has enabled bracketed paste (DECSET 2004) */
+	bracketedPaste: boolean;
+}
+
+export type PasteWarning = "multiline" | "sudo" | "rm-rf";
+
+export const PASTE_WARNING_MESSAGES: Record<PasteWarning, string> = {
+	multiline:
+		"The text has several lines, which the shell may run as separate commands.",
+	sudo: "It runs a command with sudo.",
+	"rm-rf": "It deletes files recursively (rm -rf).",
+};
+
+const BRACKETED_PASTE_START = "\x1b[200~";
+const BRACKETED_PASTE_END = "\x1b[201~";
+
+const LINE_ENDINGS: Record<Exclude<PasteLineEnding, "keep">, string> = {
+	enter: "\r",
+	lf: "\n",
+	crlf: "\r\n",
+};
+
+/**
+ * `rm` with both -r/-R (or --recursive) and -f (or --force)
+ * Flags are only looked for up to the end of the command (;, &, | or a
+ * line break), so `rm a.txt; ls -R` does not count
+ */
+const RM_RF_PATTERN =
+	/\brm[^\S\r\n]+(?=(?:[^\s;&|]*[^\S\r\n]+)*?(?:-\w*[rR]|--recursive\b))(?=(?:[^\s;&|]*[^\S\r\n]+)*?(?:-\w*f|--force\b))/;
+
+const SUDO_PATTERN = /(?:^|[\s;&|(])sudo\b/;
+
+/**
+ * Convert text to what is written to the PTY
+ */
+export function preparePaste(text: string, options: PasteOptions): string {
+	let result = text;
+	if (options.trimTrailingNewlines) {
+		result = result.replace(/[\r\n]+$/, "");
+	}
+	if (options.lineEnding !== "keep") {
+		result = result.replace(/\r?\n/g, LINE_ENDINGS[options.lineEnding]);
+	}
+	return options.bracketedPaste ? bracketPaste(result) : result;
+}
+
+/**
+ * Wrap text in bracketed paste markers
+ * Markers inside the text are removed so it cannot end the paste early
+ * and have the rest run as typed input
+ */
+export function bracketPaste(text: string): string {
+	const inner = text
+		.split(BRACKETED_PASTE_START)
+		.join("")
+		.split(BRACKETED_PASTE_END)
+		.join("");
+	return `${BRACKETED_PASTE_START}${inner}${BRACKETED_PASTE_END}`;
+}
+
+/**
+ * Reasons to confirm a paste, checked on the text as it will be sent
+ */
+export function getPasteWarnings(
+	text: string,
+	options: PasteOptions,
+): PasteWarning[] {
+	const warnings: PasteWarning[] = [];
+	const trimmed = options.trimTrailingNewlines
+		? text.replace(/[\r\n]+$/, "")
+		: text;
+
+	if (/[\r\n]/.test(trimmed)) {
+		warnings.push("multiline");
+	}
+	if (SUDO_PATTERN.test(text)) warnings.push("sudo");
+	if (RM_RF_PATTERN.test(text)) warnings.push("rm-rf");
+	return warnings;
+}
@@ -1,11 +1,17 @@
+import * as path from "path";
 import { IPty } from "@/types";
 import {
 	PTYManager as BasePTYManager,
 	PTYOptions,
+	PTYProfile,
 	TerminalPluginError,
 	TerminalErrorType,
 } from "@/types";
 import { ElectronBridge } from "./electron-bridge";
+import {
+	applyShellIntegration,
+	installShellIntegration,
+} from "./shell-integration";
 import { DEFAULT_TERMINAL_DIMENSIONS } from "@/constants";
 
 /**
@@ -14,6 +20,7 @@ import { DEFAULT_TERMINAL_DIMENSIONS } from "@/constants";
 export interface PTYSettingsProvider {
 	defaultShell: string;
 	shellArgs: string[];
+	shellIntegration?: boolean;
 }
 
 /**
@@ -24,6 +31,7 @@ export class PTYManager extends BasePTYManager {
 	private electronBridge: ElectronBridge;
 	private activePTYs: Set<IPty> = new Set();
 	private settingsProvider: (() => PTYSettingsProvider | null) | null = null;
+	private shellIntegrationInstalled = false;
 
 	constructor(electronBridge: ElectronBridge) {
 		super();
@@ -64,6 +72,11 @@ export class PTYManager extends BasePTYManager {
 			// This is crucial for posix_spawn which requires directory execute permission
 			options.cwd = this.validateAndResolveCwd(options.cwd);
 
+			// Inject prompt/cwd reporting for supported shells
+			if (this.settingsProvider?.()?.shellIntegration) {
+				this.injectShellIntegration(options);
+			}
+
 			// Platform detection for spawn options
 			const proc = this.electronBridge.getProcess();
 			const isWindows = proc.platform === "win32";
@@ -140,6 +153,30 @@ export class PTYManager extends BasePTYManager {
 		}
 	}
 
+	/**
+	 * Point the shell at its integration script (OSC 133 / OSC 7)
+	 * Failures only cost the integration, never the terminal
+	 */
+	private injectShellIntegration(options: PTYOptions): void {
+		const pluginDir = this.electronBridge.getPluginDirectory();
+		if (!pluginDir) return;
+
+		try {
+			const dir = path.join(pluginDir, "shell-integration");
+
+			if (!this.shellIntegrationInstalled) {
+				installShellIntegration(dir);
+				this.shellIntegrationInstalled = true;
+			}
+
+			if (applyShellIntegration(options, dir)) {
+				console.log(`🔌 Shell integration enabled for ${options.shell}`);
+			}
+		} catch (error) {
+			console.warn("Failed to set up shell integration:", error);
+		}
+	}
+
 	/**
 	 * Destroy a PTY process and clean up resources
 	 *
@@ -235,8 +272,9 @@ export class PTYManager extends BasePTYManager {
 
 	/**
 	 * Get default PTY options for current environment
+	 * A profile overrides shell, args, cwd and adds environment variables
 	 */
-	getDefaultOptions(): PTYOptions {
+	getDefaultOptions(profile?: PTYProfile): PTYOptions {
 		const baseEnv = this.electronBridge.getEnvironmentVariables();
 		const proc = this.electronBridge.getProcess();
 
@@ -255,14 +293,36 @@ export class PTYManager extends BasePTYManager {
 			utf8Env.PYTHONIOENCODING = "utf-8";
 		}
 
-		// Get shell args from settings if available
+		// Profile variables win over inherited ones
+		if (profile?.env) {
+			Object.assign(utf8Env, profile.env);
+		}
+
+		// Profile shell and args replace the settings pair as a whole,
+		// so args meant for the default shell never reach a profile shell
 		const settings = this.settingsProvider?.();
-		const shellArgs = settings?.shellArgs ?? [];
+		const profileShell =
+			profile?.shell && this.validateShellPath(profile.shell)
+				? profile.shell
+				: null;
+		if (profile?.shell && !profileShell) {
+			console.warn(
+				`Profile shell "${profile.shell}" is invalid, falling back to default shell and its args`,
+			);
+		}
+		// A profile without a shell may still set args for the default one
+		const shellArgs = profileShell
+			? (profile?.args ?? [])
+			: !profile?.shell && profile?.args?.length
+				? profile.args
+				: (settings?.shellArgs ?? []);
 
 		return {
-			shell: this.getDefaultShell(),
+			shell: profileShell ?? this.getDefaultShell(),
 			args: shellArgs,
-			cwd: this.electronBridge.getCurrentWorkingDirectory(),
+			cwd:
+				profile?.cwd ||
+				this.electronBridge.getCurrentWorkingDirectory(),
 			env: utf8Env,
 			cols: DEFAULT_TERMINAL_DIMENSIONS.cols,
 			rows: DEFAULT_TERMINAL_DIMENSIONS.rows,
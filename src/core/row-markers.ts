@@ -0,0 +1,254 @@
+/**
+ * Ghostty Row Markers
+ *
+ * xterm.js markers follow their row as the buffer scrolls and report -1
+ * once the row is trimmed. ghostty-web has no markers: a row is only an
+ * index into scrollback + screen, and every index shifts up once the
+ * scrollback is full and old lines are dropped, or when it is cleared.
+ *
+ * GhosttyRowTracker counts the dropped lines. ghostty-web reports neither
+ * a running line count nor its scrollback capacity in lines, so the count
+ * comes from the text: before a write the tracker notes the newest
+ * scrollback rows, afterwards it looks for them again. The shifts it
+ * tries are limited by how much the scrollback grew and how many lines
+ * the write can have pushed. When the rows are found at more than one
+ * shift (blank lines, repeated output) the count is unknown, and every
+ * marker is dropped rather than left on the wrong row.
+ *
+ * Markers store their row plus the dropped count at creation, so their
+ * line stays on the same text and turns -1 when that text is gone.
+ *
+ * @module core/row-markers
+ */
+
+import type { Terminal as GhosttyTerminal, GhosttyCell } from "ghostty-web";
+import type { RowMarker } from "@/types";
+
+/** Newest scrollback rows compared to find how far the buffer moved */
+const ANCHOR_ROWS = 4;
+
+/** Sequences that take no columns: CSI and OSC */
+const ESCAPE_SEQUENCE =
+	// eslint-disable-next-line no-control-regex
+	/\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+/** Index and next line, and scroll up (CSI n S) */
+// eslint-disable-next-line no-control-regex
+const SCROLL_SEQUENCE = /\x1b[DE]|\x1b\[(\d*)S/g;
+
+interface WriteAnchor {
+	scrollbackLength: number;
+	screenRows: number;
+	/** Most lines the write can push into the scrollback */
+	maxAdded: number;
+	/** Text of the newest ANCHOR_ROWS scrollback rows, oldest first */
+	rows: string[];
+}
+
+type WriteFn = GhosttyTerminal["write"];
+
+/**
+ * Counts the lines ghostty-web drops from the top of its buffer and hands
+ * out markers that account for them
+ */
+export class GhosttyRowTracker {
+	private terminal: GhosttyTerminal | null = null;
+	private originalWrite: WriteFn | null = null;
+	/** Lines dropped from the top since the tracker was created */
+	private dropped = 0;
+	/** Absolute row of the newest marker, -1 before the first one */
+	private newestMarker = -1;
+
+	/**
+	 * Track the writes of a terminal; a rebuilt terminal takes over the
+	 * previous one's rows, so markers created before stay valid
+	 */
+	attach(terminal: GhosttyTerminal): void {
+		this.detach();
+		this.terminal = terminal;
+
+		const write = terminal.write;
+		this.originalWrite = write;
+		terminal.write = ((data, callback) => {
+			// Nothing to keep in place once every marker is gone
+			const anchor = this.hasLiveMarkers() ? this.getAnchor(data) : null;
+			write.call(terminal, data, callback);
+			if (anchor) this.dropped += this.countDropped(anchor);
+		}) as WriteFn;
+	}
+
+	/**
+	 * Marker for a row of the current buffer (0 = oldest scrollback line)
+	 */
+	createMarker(row: number): RowMarker {
+		const absolute = row + this.dropped;
+		this.newestMarker = Math.max(this.newestMarker, absolute);
+		const getDropped = () => this.dropped;
+		return {
+			get line() {
+				const line = absolute - getDropped();
+				return line >= 0 ? line : -1;
+			},
+			dispose: () => {},
+		};
+	}
+
+	/**
+	 * Stop tracking; the terminal keeps working without the write wrapper
+	 */
+	detach(): void {
+		if (this.terminal && this.originalWrite) {
+			this.terminal.write = this.originalWrite;
+		}
+		this.terminal = null;
+		this.originalWrite = null;
+	}
+
+	private hasLiveMarkers(): boolean {
+		return this.newestMarker >= this.dropped;
+	}
+
+	private getAnchor(data: string | Uint8Array): WriteAnchor | null {
+		const wasmTerm = this.terminal?.wasmTerm;
+		if (!wasmTerm) return null;
+
+		const scrollbackLength = wasmTerm.getScrollbackLength();
+		const maxAdded = countAddedLines(
+			data,
+			wasmTerm.cols,
+			wasmTerm.rows,
+			wasmTerm.getCursor(),
+		);
+		const rows: string[] = [];
+		// A write without line breaks cannot move rows, only clear them
+		if (maxAdded > 0) {
+			const first = Math.max(0, scrollbackLength - ANCHOR_ROWS);
+			for (let i = first; i < scrollbackLength; i++) {
+				rows.push(rowText(wasmTerm.getScrollbackLine(i)));
+			}
+		}
+		return {
+			scrollbackLength,
+			screenRows: wasmTerm.rows,
+			maxAdded,
+			rows,
+		};
+	}
+
+	/**
+	 * Lines dropped from the top by a write
+	 * The anchor rows sit `shift` rows higher than before. The write pushed
+	 * `growth + shift` lines, which is at least 0 and at most maxAdded
+	 */
+	private countDropped(anchor: WriteAnchor): number {
+		const wasmTerm = this.terminal?.wasmTerm;
+		if (!wasmTerm) return 0;
+
+		// Every row the buffer held before the write
+		const all = anchor.scrollbackLength + anchor.screenRows;
+		const growth = wasmTerm.getScrollbackLength() - anchor.scrollbackLength;
+		if (anchor.maxAdded === 0) {
+			// Scrollback cleared: nothing written before is left
+			return growth < 0 ? all : 0;
+		}
+
+		const start = anchor.scrollbackLength - anchor.rows.length;
+		const minShift = Math.max(0, -growth);
+		const maxShift = Math.min(start, anchor.maxAdded - growth);
+
+		const texts = new Map<number, string>();
+		const textAt = (row: number): string => {
+			let text = texts.get(row);
+			if (text === undefined) {
+				text = rowText(wasmTerm.getScrollbackLine(row));
+				texts.set(row, text);
+			}
+			return text;
+		};
+
+		let found = -1;
+		for (let shift = minShift; shift <= maxShift; shift++) {
+			const matches = anchor.rows.every(
+				(text, i) => textAt(start - shift + i) === text,
+			);
+			if (!matches) continue;
+			// Repeated rows: the shift is unknown, drop every marker
+			if (found >= 0) return all;
+			found = shift;
+		}
+		// Not found: cleared, or trimmed past the anchor rows
+		return found >= 0 ? found : all;
+	}
+}
+
+/**
+ * Most lines a write can push into the scrollback: one per line break or
+ * scroll plus the wraps of the text between them, less the rows below the
+ * cursor when nothing in the write can move it
+ */
+function countAddedLines(
+	data: string | Uint8Array,
+	cols: number,
+	rows: number,
+	cursor: { x: number; y: number },
+): number {
+	if (typeof data !== "string") return data.length;
+
+	let added = 0;
+	const scroll = new RegExp(SCROLL_SEQUENCE);
+	let match: RegExpExecArray | null;
+	while ((match = scroll.exec(data))) {
+		added += match[1] ? parseInt(match[1], 10) : 1;
+	}
+
+	const lines = data.split(/[\n\v\f]/);
+	added += lines.length - 1;
+
+	// Text starts after the cursor (one further for a pending wrap) or in
+	// the first column after "\r"; elsewhere, or when a sequence may move
+	// the cursor, it can start in any column
+	const width = Math.max(1, cols);
+	let lineStart: number | null = cursor.x + 1;
+	for (const line of lines) {
+		line.split("\r").forEach((piece, i) => {
+			const start = i > 0 ? 0 : lineStart;
+			const pieceWidth = textWidth(piece.replace(ESCAPE_SEQUENCE, ""));
+			if (start === null || piece.includes("\x1b")) {
+				added += Math.ceil(pieceWidth / width);
+			} else {
+				added += Math.max(
+					0,
+					Math.ceil((start + pieceWidth) / width) - 1,
+				);
+			}
+		});
+		lineStart = line.endsWith("\r") ? 0 : null;
+	}
+
+	if (data.includes("\x1b")) return added;
+	return Math.max(0, added - Math.max(0, rows - 1 - cursor.y));
+}
+
+/**
+ * Columns text can take at most: wide characters count two, tabs eight
+ */
+function textWidth(text: string): number {
+	let width = 0;
+	for (const char of text) {
+		const code = char.codePointAt(0) ?? 0;
+		if (char === "\t") width += 8;
+		else if (code >= 0x1100) width += 2;
+		else if (code >= 0x20) width += 1;
+	}
+	return width;
+}
+
+function rowText(cells: GhosttyCell[] | null): string {
+	if (!cells) return "";
+	return cells
+		.map((cell) =>
+			cell.codepoint > 0 ? String.fromCodePoint(cell.codepoint) : " ",
+		)
+		.join("")
+		.trimEnd();
+}
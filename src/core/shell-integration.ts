@@ -0,0 +1,411 @@
+/**
+ * Shell Integration
+ *
+ * Scripts that make bash, zsh, fish and PowerShell report their prompt,
+ * command boundaries and exit codes (OSC 133) and working directory (OSC 7),
+ * plus a stream parser that turns those sequences into events.
+ *
+ * The scripts are written to the plugin directory and injected at spawn
+ * time through the PTY args/env. The user's own rc files are still loaded.
+ *
+ * @module core/shell-integration
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { PTYOptions } from "@/types";
+
+const BASH_SCRIPT = `# O Terminal shell integration (bash)
+# Loaded via --rcfile in place of ~/.bashrc, which is sourced first.
+# bash ignores --rcfile in login shells, so a login shell is started as
+# an interactive one that reads the login files instead
+if [ -n "$OTERM_BASH_LOGIN" ]; then
+	unset OTERM_BASH_LOGIN
+	if [ -r /etc/profile ]; then
+		. /etc/profile
+	fi
+	if [ -r ~/.bash_profile ]; then
+		. ~/.bash_profile
+	elif [ -r ~/.bash_login ]; then
+		. ~/.bash_login
+	elif [ -r ~/.profile ]; then
+		. ~/.profile
+	fi
+elif [ -f ~/.bashrc ]; then
+	. ~/.bashrc
+fi
+
+if [ -z "$__oterm_loaded" ]; then
+	__oterm_loaded=1
+	__oterm_first_prompt=1
+
+	__oterm_precmd() {
+		local code=$?
+		if [ -z "$__oterm_first_prompt" ]; then
+			printf '\\e]133;D;%s\\a' "$code"
+		fi
+		__oterm_first_prompt=
+		printf '\\e]7;file://%s%s\\a' "$HOSTNAME" "$PWD"
+		if [[ "$PS1" != *'133;A'* ]]; then
+			PS1="\\[\\e]133;A\\a\\]$PS1\\[\\e]133;B\\a\\]"
+		fi
+		return $code
+	}
+
+	PS0="$PS0\\e]133;C\\a"
+	PROMPT_COMMAND="__oterm_precmd\${PROMPT_COMMAND:+;$PROMPT_COMMAND}"
+fi
+`;
+
+/** Forwards a zsh startup file to the user's copy in their real ZDOTDIR */
+const zshForward = (file: string) => `# O Terminal shell integration (zsh)
+if [[ -f "\${OTERM_USER_ZDOTDIR:-$HOME}/${file}" ]]; then
+	source "\${OTERM_USER_ZDOTDIR:-$HOME}/${file}"
+fi
+`;
+
+const ZSH_RC_SCRIPT = `${zshForward(".zshrc")}
+# Hand ZDOTDIR back so .zlogin and later shells use the user's files
+if [[ -n "$OTERM_USER_ZDOTDIR" ]]; then
+	ZDOTDIR="$OTERM_USER_ZDOTDIR"
+else
+	unset ZDOTDIR
+fi
+unset OTERM_USER_ZDOTDIR
+
+if [[ -z "$__oterm_loaded" ]]; then
+	__oterm_loaded=1
+
+	__oterm_precmd() {
+		local code=$?
+		if [[ -n "$__oterm_running" ]]; then
+			print -n "\\e]133;D;$code\\a"
+			unset __oterm_running
+		fi
+		print -n "\\e]7;file://$HOST$PWD\\a"
+		if [[ "$PS1" != *'133;A'* ]]; then
+			PS1=$'%{\\e]133;A\\a%}'"$PS1"$'%{\\e]133;B\\a%}'
+		fi
+	}
+
+	__oterm_preexec() {
+		__oterm_running=1
+		print -n "\\e]133;C\\a"
+	}
+
+	# First in line so $? is still the command's exit status
+	precmd_functions=(__oterm_precmd $precmd_functions)
+	preexec_functions+=(__oterm_preexec)
+fi
+`;
+
+const FISH_SCRIPT = `# O Terminal shell integration (fish)
+# Loaded via --init-command, after the user's config.fish
+if not set -q __oterm_loaded
+	set -g __oterm_loaded 1
+
+	function __oterm_preexec --on-event fish_preexec
+		printf '\\e]133;C\\a'
+	end
+
+	function __oterm_postexec --on-event fish_postexec
+		printf '\\e]133;D;%s\\a' $status
+	end
+
+	function __oterm_prompt_start --on-event fish_prompt
+		printf '\\e]7;file://%s%s\\a' $hostname "$PWD"
+		printf '\\e]133;A\\a'
+	end
+
+	functions -c fish_prompt __oterm_original_prompt
+	function fish_prompt
+		__oterm_original_prompt
+		printf '\\e]133;B\\a'
+	end
+end
+`;
+
+const POWERSHELL_SCRIPT = `# O Terminal shell integration (PowerShell)
+# Dot-sourced via -Command after the user's profile
+if (-not $Global:__OTermLoaded) {
+	$Global:__OTermLoaded = $true
+	$Global:__OTermRunning = $false
+	$Global:__OTermOriginalPrompt = $function:prompt
+
+	function Global:prompt {
+		$success = $?
+		$code = $Global:LASTEXITCODE
+		$esc = [char]27
+		$bel = [char]7
+		$out = ""
+
+		if ($Global:__OTermRunning) {
+			$exit = if ($success) { 0 } elseif ($code) { $code } else { 1 }
+			$out += "$esc]133;D;$exit$bel"
+			$Global:__OTermRunning = $false
+		}
+
+		$location = Get-Location
+		if ($location.Provider.Name -eq "FileSystem") {
+			$cwd = $location.ProviderPath -replace "\\\\", "/"
+			$out += "$esc]7;file://$env:COMPUTERNAME/$cwd$bel"
+		}
+
+		$out += "$esc]133;A$bel"
+		$out += "$(& $Global:__OTermOriginalPrompt)"
+		$out += "$esc]133;B$bel"
+
+		$Global:LASTEXITCODE = $code
+		return $out
+	}
+
+	if (Get-Module -Name PSReadLine) {
+		Set-PSReadLineKeyHandler -Chord Enter -ScriptBlock {
+			[Microsoft.PowerShell.PSConsoleReadLine]::AcceptLine()
+			$Global:__OTermRunning = $true
+			[Console]::Write("$([char]27)]133;C$([char]7)")
+		}
+	}
+}
+`;
+
+/**
+ * Files written to the integration directory, relative paths
+ */
+const SCRIPT_FILES: Record<string, string> = {
+	"bash-integration.sh": BASH_SCRIPT,
+	"fish-integration.fish": FISH_SCRIPT,
+	"powershell-integration.ps1": POWERSHELL_SCRIPT,
+	"zsh/.zshenv": zshForward(".zshenv"),
+	"zsh/.zprofile": zshForward(".zprofile"),
+	"zsh/.zshrc": ZSH_RC_SCRIPT,
+};
+
+/**
+ * Write the integration scripts, skipping files that are already current
+ */
+export function installShellIntegration(dir: string): void {
+	for (const [relativePath, content] of Object.entries(SCRIPT_FILES)) {
+		const filePath = path.join(dir, relativePath);
+		if (
+			fs.existsSync(filePath) &&
+			fs.readFileSync(filePath, "utf8") === content
+		) {
+			continue;
+		}
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content, "utf8");
+	}
+}
+
+/** bash/fish args that start an interactive or login shell */
+const LOGIN_ARGS = new Set(["-l", "--login", "-i", "--interactive"]);
+
+/** PowerShell args that can come before -NoExit -Command */
+const POWERSHELL_ARGS = new Set([
+	"-login",
+	"-l",
+	"-nologo",
+	"-noprofile",
+	"-noexit",
+	"-nonint",
+	"-noninteractive",
+]);
+
+/**
+ * Rewrite PTY args/env so the shell loads its integration script
+ * zsh reads it through ZDOTDIR whatever its args. bash, fish and
+ * PowerShell keep login and interactive flags; other args (e.g. -c or a
+ * script) leave the shell alone, as are shells without integration
+ * (cmd.exe, sh, REPLs)
+ *
+ * @returns Whether integration was injected
+ */
+export function applyShellIntegration(
+	options: PTYOptions,
+	dir: string,
+): boolean {
+	const isWindows = process.platform === "win32";
+	const shellName = (options.shell.split(/[\\/]/).pop() || "")
+		.toLowerCase()
+		.replace(/\.exe$/, "");
+	const onlyArgs = (allowed: Set<string>) =>
+		options.args.every((arg) => allowed.has(arg.toLowerCase()));
+
+	switch (shellName) {
+		// bash/zsh/fish on Windows are usually WSL or MSYS wrappers that
+		// cannot read Windows paths, so only PowerShell is integrated there
+		case "bash":
+			if (isWindows || !onlyArgs(LOGIN_ARGS)) return false;
+			if (options.args.some((arg) => arg === "-l" || arg === "--login")) {
+				options.env.OTERM_BASH_LOGIN = "1";
+			}
+			options.args = [
+				"--rcfile",
+				path.join(dir, "bash-integration.sh"),
+			];
+			break;
+		case "zsh":
+			if (isWindows) return false;
+			if (options.env.ZDOTDIR) {
+				options.env.OTERM_USER_ZDOTDIR = options.env.ZDOTDIR;
+			}
+			options.env.ZDOTDIR = path.join(dir, "zsh");
+			break;
+		case "fish":
+			if (isWindows || !onlyArgs(LOGIN_ARGS)) return false;
+			options.args = [
+				...options.args,
+				"--init-command",
+				`source '${path.join(dir, "fish-integration.fish")}'`,
+			];
+			break;
+		case "pwsh":
+		case "powershell":
+			if (!onlyArgs(POWERSHELL_ARGS)) return false;
+			options.args = [
+				...options.args.filter((arg) => arg.toLowerCase() !== "-noexit"),
+				"-NoExit",
+				"-Command",
+				`. '${path.join(dir, "powershell-integration.ps1")}'`,
+			];
+			break;
+		default:
+			return false;
+	}
+
+	options.env.OTERM_SHELL_INTEGRATION = "1";
+	return true;
+}
+
+/**
+ * Events reported by integrated shells
+ */
+export type ShellIntegrationEvent =
+	/** OSC 7 - working directory changed */
+	| { type: "cwd"; cwd: string }
+	/** OSC 133;A - prompt is about to be drawn */
+	| { type: "prompt-start" }
+	/** OSC 133;B - prompt drawn, user input starts */
+	| { type: "prompt-end" }
+	/** OSC 133;C - command accepted, output starts */
+	| { type: "command-start" }
+	/** OSC 133;D - command finished */
+	| { type: "command-end"; exitCode?: number };
+
+/**
+ * A chunk of PTY output, optionally ending with an integration event
+ */
+export interface ShellIntegrationChunk {
+	text: string;
+	event?: ShellIntegrationEvent;
+}
+
+/** Longest unterminated OSC kept while waiting for the next chunk */
+const MAX_PENDING_OSC = 4096;
+
+/**
+ * Matches OSC 7 and OSC 133 sequences (BEL or ST terminated)
+ */
+// eslint-disable-next-line no-control-regex
+const OSC_PATTERN = /\x1b\](7|133);([^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+
+/**
+ * Splits PTY output at OSC 7 / OSC 133 sequences
+ *
+ * Sequences stay in the text (renderers ignore or handle them); each event
+ * is attached to the chunk it ends, so the caller can act on it once the
+ * preceding output has been written. Sequences split across PTY chunks
+ * are held back until complete.
+ */
+export class ShellIntegrationParser {
+	private pending = "";
+
+	parse(data: string): ShellIntegrationChunk[] {
+		let input = this.pending + data;
+		this.pending = "";
+
+		// Hold back a trailing, possibly incomplete escape sequence
+		const lastEsc = input.lastIndexOf("\x1b");
+		if (lastEsc !== -1) {
+			const tail = input.slice(lastEsc);
+			const incomplete =
+				tail === "\x1b" ||
+				(tail.startsWith("\x1b]") &&
+					!tail.includes("\x07") &&
+					!tail.includes("\x1b\\", 1) &&
+					tail.length < MAX_PENDING_OSC);
+			if (incomplete) {
+				this.pending = tail;
+				input = input.slice(0, lastEsc);
+			}
+		}
+
+		const chunks: ShellIntegrationChunk[] = [];
+		let start = 0;
+
+		OSC_PATTERN.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = OSC_PATTERN.exec(input)) !== null) {
+			const event = this.toEvent(match[1], match[2]);
+			if (!event) continue;
+
+			const end = match.index + match[0].length;
+			chunks.push({ text: input.slice(start, end), event });
+			start = end;
+		}
+
+		if (start < input.length) {
+			chunks.push({ text: input.slice(start) });
+		}
+
+		return chunks;
+	}
+
+	private toEvent(
+		code: string,
+		payload: string,
+	): ShellIntegrationEvent | null {
+		if (code === "7") {
+			const cwd = parseFileUrl(payload);
+			return cwd ? { type: "cwd", cwd } : null;
+		}
+
+		const [kind, exitCode] = payload.split(";");
+		switch (kind) {
+			case "A":
+				return { type: "prompt-start" };
+			case "B":
+				return { type: "prompt-end" };
+			case "C":
+				return { type: "command-start" };
+			case "D": {
+				const parsed = parseInt(exitCode, 10);
+				return {
+					type: "command-end",
+					exitCode: Number.isNaN(parsed) ? undefined : parsed,
+				};
+			}
+			default:
+				return null;
+		}
+	}
+}
+
+/**
+ * Extract the path from an OSC 7 file:// URL
+ * "file://host/C:/Users" becomes "C:/Users" on Windows-style paths
+ */
+function parseFileUrl(url: string): string | null {
+	const match = /^file:\/\/[^/]*(\/.*)$/.exec(url);
+	if (!match) return null;
+
+	let pathname: string;
+	try {
+		pathname = decodeURIComponent(match[1]);
+	} catch {
+		pathname = match[1];
+	}
+
+	return /^\/[a-zA-Z]:/.test(pathname) ? pathname.slice(1) : pathname;
+}
@@ -0,0 +1,110 @@
+/**
+ * Command Snippets
+ *
+ * Named commands with `{{placeholders}}`, stored in the settings or as
+ * one note per snippet in a vault folder. A snippet note holds the command
+ * in its first code block; front matter can set `name`, `profile`, `cwd`
+ * and `register-command`.
+ *
+ * @module core/snippets
+ */
+
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+import type { TerminalSnippet } from "@/settings";
+
+/**
+ * `{{name}}` or `{{name:default value}}`
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}:]+?)\s*(?::([^{}]*))?\}\}/g;
+
+/**
+ * First fenced code block of a note, with its info string
+ */
+const CODE_BLOCK_PATTERN = /^(`{3,}|~{3,})[^\n]*\n([\s\S]*?)\n\1\s*$/m;
+
+export interface SnippetPlaceholder {
+	name: string;
+	defaultValue: string;
+}
+
+/**
+ * Placeholders of a command in order of first appearance
+ * A repeated placeholder is asked for once; its first default wins
+ */
+export function parseSnippetPlaceholders(
+	command: string,
+): SnippetPlaceholder[] {
+	const placeholders = new Map<string, SnippetPlaceholder>();
+	command.replace(
+		PLACEHOLDER_PATTERN,
+		(match, name: string, defaultValue?: string) => {
+			if (!placeholders.has(name)) {
+				placeholders.set(name, {
+					name,
+					defaultValue: defaultValue ?? "",
+				});
+			}
+			return match;
+		},
+	);
+	return Array.from(placeholders.values());
+}
+
+/**
+ * Replace every placeholder with its value
+ */
+export function fillSnippetPlaceholders(
+	command: string,
+	values: Record<string, string>,
+): string {
+	return command.replace(
+		PLACEHOLDER_PATTERN,
+		(_match, name: string, defaultValue?: string) =>
+			values[name] ?? defaultValue ?? "",
+	);
+}
+
+/**
+ * Read the snippet notes of a vault folder (including subfolders)
+ * Notes without a code block are skipped
+ */
+export async function loadNoteSnippets(
+	app: App,
+	folderPath: string,
+): Promise<TerminalSnippet[]> {
+	if (!folderPath.trim()) return [];
+
+	const folder = app.vault.getAbstractFileByPath(normalizePath(folderPath));
+	if (!(folder instanceof TFolder)) return [];
+
+	const files: TFile[] = [];
+	const collect = (current: TFolder) => {
+		for (const child of current.children) {
+			if (child instanceof TFolder) {
+				collect(child);
+			} else if (child instanceof TFile && child.extension === "md") {
+				files.push(child);
+			}
+		}
+	};
+	collect(folder);
+
+	const snippets: TerminalSnippet[] = [];
+	for (const file of files) {
+		const match = CODE_BLOCK_PATTERN.exec(await app.vault.cachedRead(file));
+		if (!match) continue;
+
+		const frontmatter =
+			app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+		snippets.push({
+			id: `note:${file.path}`,
+			name: String(frontmatter.name ?? file.basename),
+			command: match[2],
+			profileId: String(frontmatter.profile ?? ""),
+			cwd: String(frontmatter.cwd ?? ""),
+			registerCommand: frontmatter["register-command"] === true,
+			sourcePath: file.path,
+		});
+	}
+	return snippets.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -1,10 +1,14 @@
 import {
 	TerminalManager as BaseTerminalManager,
 	TerminalSession,
+	PTYProfile,
 	TerminalPluginError,
 	TerminalErrorType,
 } from "@/types";
 import { PTYManager } from "./pty-manager";
+import { getBracketedPasteToggle, getLastLine } from "./ansi";
+import { bracketPaste } from "./paste";
+import { SESSION_OUTPUT_TAIL_SIZE } from "@/constants";
 
 /**
  * Terminal manager implementation for managing multiple terminal sessions
@@ -14,6 +18,9 @@ export class TerminalManager extends BaseTerminalManager {
 	public terminals: Map<string, TerminalSession> = new Map();
 	private ptyManager: PTYManager;
 	private sessionCounter: number = 0;
+	private changeListeners: Set<() => void> = new Set();
+	private outputListeners: Map<string, Set<(data: string) => void>> =
+		new Map();
 
 	constructor(ptyManager: PTYManager) {
 		super();
@@ -22,8 +29,9 @@ export class TerminalManager extends BaseTerminalManager {
 
 	/**
 	 * Create a new terminal session
+	 * @param profile - Optional shell/args/env/cwd overrides
 	 */
-	createTerminal(id?: string): TerminalSession {
+	createTerminal(id?: string, profile?: PTYProfile): TerminalSession {
 		try {
 			// Generate unique ID if not provided
 			const sessionId = id || this.generateSessionId();
@@ -37,7 +45,7 @@ export class TerminalManager extends BaseTerminalManager {
 			}
 
 			// Get default PTY options
-			const ptyOptions = this.ptyManager.getDefaultOptions();
+			const ptyOptions = this.ptyManager.getDefaultOptions(profile);
 
 			// Create PTY process
 			const ptyProcess = this.ptyManager.createPTY(ptyOptions);
@@ -50,6 +58,8 @@ export class TerminalManager extends BaseTerminalManager {
 				view: undefined, // Will be set when view is created
 				initialCwd: ptyOptions.cwd,
 				shell: ptyOptions.shell,
+				createdAt: Date.now(),
+				profile,
 			};
 
 			// Store the session
@@ -57,6 +67,7 @@ export class TerminalManager extends BaseTerminalManager {
 
 			// Set up PTY event handlers for session management
 			this.setupPTYEventHandlers(session);
+			this.notifySessionsChanged();
 
 			return session;
 		} catch (error) {
@@ -95,6 +106,7 @@ export class TerminalManager extends BaseTerminalManager {
 			if (session.view) {
 				session.view = undefined;
 			}
+			this.outputListeners.delete(id);
 
 			// Clean up PTY process (kill after removing from map)
 			try {
@@ -104,6 +116,7 @@ export class TerminalManager extends BaseTerminalManager {
 			}
 
 			console.log(`Terminal session ${id} destroyed`);
+			this.notifySessionsChanged();
 		} catch (error) {
 			throw new TerminalPluginError(
 				TerminalErrorType.VIEW_CREATION_FAILED,
@@ -130,6 +143,76 @@ export class TerminalManager extends BaseTerminalManager {
 		);
 	}
 
+	/**
+	 * Get live sessions that are not shown in any view (detached)
+	 */
+	getDetachedTerminals(): TerminalSession[] {
+		return this.getActiveTerminals().filter((session) => !session.view);
+	}
+
+	/**
+	 * Get the last non-empty output line of a session (ANSI stripped)
+	 */
+	getLastOutputLine(id: string): string {
+		const session = this.terminals.get(id);
+		return session?.outputTail ? getLastLine(session.outputTail) : "";
+	}
+
+	/**
+	 * Subscribe to session list changes (spawn, exit, destroy, attach, rename)
+	 */
+	onSessionsChanged(callback: () => void): { dispose(): void } {
+		this.changeListeners.add(callback);
+		return {
+			dispose: () => this.changeListeners.delete(callback),
+		};
+	}
+
+	/**
+	 * Subscribe to raw PTY output of a session
+	 * The subscription survives restarts and ends when the session is destroyed
+	 */
+	onOutput(
+		id: string,
+		callback: (data: string) => void,
+	): { dispose(): void } {
+		let listeners = this.outputListeners.get(id);
+		if (!listeners) {
+			listeners = new Set();
+			this.outputListeners.set(id, listeners);
+		}
+		listeners.add(callback);
+
+		return {
+			dispose: () => this.outputListeners.get(id)?.delete(callback),
+		};
+	}
+
+	/**
+	 * Notify listeners that a session changed
+	 * Views call this when they attach, detach or rename a session
+	 */
+	notifySessionsChanged(): void {
+		for (const listener of this.changeListeners) {
+			try {
+				listener();
+			} catch (error) {
+				console.warn("Session change listener failed:", error);
+			}
+		}
+	}
+
+	/**
+	 * Rename a terminal session (empty name restores the automatic title)
+	 */
+	renameTerminal(id: string, name: string): void {
+		const session = this.terminals.get(id);
+		if (!session) return;
+
+		session.name = name.trim() || undefined;
+		this.notifySessionsChanged();
+	}
+
 	/**
 	 * Get all terminal session IDs
 	 */
@@ -172,6 +255,8 @@ export class TerminalManager extends BaseTerminalManager {
 
 			// Clear the map
 			this.terminals.clear();
+			this.changeListeners.clear();
+			this.outputListeners.clear();
 
 			// Clean up PTY manager
 			this.ptyManager.cleanup();
@@ -193,28 +278,119 @@ export class TerminalManager extends BaseTerminalManager {
 		const existingSession = this.terminals.get(id);
 		if (!existingSession) {
 			throw new TerminalPluginError(
-				TerminalErrorType.VIEW_CREATION_FAILED,
+				TerminalErrorType.NOT_FOUND,
 				`Terminal session ${id} not found`,
 			);
 		}
 
 		// Store view reference
 		const view = existingSession.view;
+		const { name, profile, profileId, broadcast } = existingSession;
+		const outputListeners = this.outputListeners.get(id);
 
 		// Destroy the existing session
 		this.destroyTerminal(id);
+		if (outputListeners) {
+			this.outputListeners.set(id, outputListeners);
+		}
 
-		// Create new session with same ID
-		const newSession = this.createTerminal(id);
+		// Create new session with same ID and launch profile
+		const newSession = this.createTerminal(id, profile);
 
-		// Restore view reference
+		// Restore view reference, user-assigned name, profile and broadcast
 		if (view) {
 			newSession.view = view;
 		}
+		newSession.name = name;
+		newSession.profileId = profileId;
+		newSession.broadcast = broadcast;
+		this.notifySessionsChanged();
 
 		return newSession;
 	}
 
+	/**
+	 * Send text to a session as if it were pasted
+	 * Uses bracketed paste when the shell has enabled it, so multi-line
+	 * input is not executed line by line while it is being inserted
+	 *
+	 * @param execute - Press Enter after the text
+	 */
+	sendText(id: string, text: string, execute = false): void {
+		const session = this.terminals.get(id);
+		if (!session) {
+			throw new TerminalPluginError(
+				TerminalErrorType.NOT_FOUND,
+				`Terminal session ${id} not found`,
+			);
+		}
+		if (!session.isActive) {
+			throw new TerminalPluginError(
+				TerminalErrorType.PROCESS_TERMINATED,
+				`Terminal session ${id} is not running`,
+			);
+		}
+
+		const normalized = text.replace(/\r?\n/g, "\r");
+		const payload = session.bracketedPaste
+			? bracketPaste(normalized)
+			: normalized;
+
+		session.ptyProcess.write(execute ? `${payload}\r` : payload);
+	}
+
+	/**
+	 * Write typed input to a session
+	 * Input to a broadcasting session is mirrored to every other one
+	 */
+	writeInput(id: string, data: string): void {
+		const session = this.terminals.get(id);
+		if (!session || !session.isActive) return;
+
+		session.ptyProcess.write(data);
+		if (!session.broadcast) return;
+
+		for (const other of this.getBroadcastSessions()) {
+			if (other === session) continue;
+			try {
+				other.ptyProcess.write(data);
+			} catch (error) {
+				console.warn(
+					`Failed to broadcast input to terminal ${other.id}:`,
+					error,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Sessions whose input is mirrored to each other
+	 */
+	getBroadcastSessions(): TerminalSession[] {
+		return this.getActiveTerminals().filter((session) => session.broadcast);
+	}
+
+	/**
+	 * Add a session to the broadcast group or remove it
+	 */
+	setBroadcast(id: string, enabled: boolean): void {
+		const session = this.terminals.get(id);
+		if (!session || !!session.broadcast === enabled) return;
+
+		session.broadcast = enabled;
+		this.notifySessionsChanged();
+	}
+
+	/**
+	 * Empty the broadcast group
+	 */
+	stopBroadcast(): void {
+		for (const session of this.terminals.values()) {
+			session.broadcast = false;
+		}
+		this.notifySessionsChanged();
+	}
+
 	/**
 	 * Resize all active terminals
 	 */
@@ -243,6 +419,33 @@ export class TerminalManager extends BaseTerminalManager {
 	private setupPTYEventHandlers(session: TerminalSession): void {
 		const { ptyProcess, id } = session;
 
+		// Keep a short output tail for previews of detached sessions,
+		// follow the shell's bracketed paste mode for sendText(),
+		// note shell integration and forward output to onOutput() subscribers
+		ptyProcess.on("data", (data: string) => {
+			const tail = (session.outputTail ?? "") + data;
+			session.outputTail =
+				tail.length > SESSION_OUTPUT_TAIL_SIZE
+					? tail.slice(-SESSION_OUTPUT_TAIL_SIZE)
+					: tail;
+
+			const bracketedPaste = getBracketedPasteToggle(data);
+			if (bracketedPaste !== null) {
+				session.bracketedPaste = bracketedPaste;
+			}
+			if (!session.shellIntegration && data.includes("\x1b]133;")) {
+				session.shellIntegration = true;
+			}
+
+			for (const listener of this.outputListeners.get(id) ?? []) {
+				try {
+					listener(data);
+				} catch (error) {
+					console.warn("Session output listener failed:", error);
+				}
+			}
+		});
+
 		// Handle PTY process exit
 		ptyProcess.on("exit", (exitCode: number, signal?: number) => {
 			// Check if this session is still valid (not replaced by restart)
@@ -262,6 +465,8 @@ export class TerminalManager extends BaseTerminalManager {
 			// Mark session as inactive but don't destroy it yet
 			// This allows the user to see the exit message and restart if needed
 			session.isActive = false;
+			session.exitCode = exitCode;
+			this.notifySessionsChanged();
 
 			// Notify view if it exists
 			if (
@@ -285,6 +490,7 @@ export class TerminalManager extends BaseTerminalManager {
 
 			// Mark session as inactive
 			session.isActive = false;
+			this.notifySessionsChanged();
 
 			// Notify view if it exists
 			if (
@@ -305,9 +511,13 @@ export class TerminalManager extends BaseTerminalManager {
 	/**
 	 * Find available shell and create terminal with it
 	 * On macOS, includes retry logic and shell fallback for posix_spawnp issues
+	 *
+	 * @param profile - Optional shell/args/env/cwd overrides; the profile
+	 * shell is tried before the defaults
 	 */
 	async createTerminalWithAvailableShell(
 		id?: string,
+		profile?: PTYProfile,
 	): Promise<TerminalSession> {
 		// Generate unique ID if not provided
 		const sessionId = id || this.generateSessionId();
@@ -321,7 +531,7 @@ export class TerminalManager extends BaseTerminalManager {
 		}
 
 		const isMacOS = process.platform === "darwin";
-		const shellsToTry = await this.getShellsToTry();
+		const shellsToTry = await this.getShellsToTry(profile?.shell);
 		let lastError: Error | null = null;
 
 		// On macOS, try multiple shells due to posix_spawnp issues with node-pty 1.0+
@@ -336,8 +546,15 @@ export class TerminalManager extends BaseTerminalManager {
 						`🔄 Attempting to spawn shell: ${shell} (attempt ${attempt}/${maxRetries})`,
 					);
 
-					const ptyOptions = this.ptyManager.getDefaultOptions();
-					ptyOptions.shell = shell;
+					const ptyOptions =
+						this.ptyManager.getDefaultOptions(profile);
+					if (ptyOptions.shell !== shell) {
+						// Profile args belong to the profile shell only
+						if (profile?.shell) {
+							ptyOptions.args = [];
+						}
+						ptyOptions.shell = shell;
+					}
 
 					// Create PTY process
 					const ptyProcess = this.ptyManager.createPTY(ptyOptions);
@@ -350,6 +567,8 @@ export class TerminalManager extends BaseTerminalManager {
 						view: undefined,
 						initialCwd: ptyOptions.cwd,
 						shell: ptyOptions.shell,
+						createdAt: Date.now(),
+						profile,
 					};
 
 					// Store the session
@@ -357,6 +576,7 @@ export class TerminalManager extends BaseTerminalManager {
 
 					// Set up PTY event handlers
 					this.setupPTYEventHandlers(session);
+					this.notifySessionsChanged();
 
 					console.log(`✅ Successfully spawned shell: ${shell}`);
 					return session;
@@ -394,14 +614,22 @@ export class TerminalManager extends BaseTerminalManager {
 
 	/**
 	 * Get list of shells to try, prioritizing system shells on macOS
+	 * A requested shell (e.g. from a restored session) is tried first
 	 */
-	private async getShellsToTry(): Promise<string[]> {
+	private async getShellsToTry(requestedShell?: string): Promise<string[]> {
 		const alternatives = this.ptyManager.getAlternativeShells();
 		const preferredShell = await this.ptyManager.findAvailableShell();
 
-		// Build ordered list: preferred shell first, then alternatives
+		// Build ordered list: requested and preferred shell first, then alternatives
 		const shells: string[] = [];
 
+		if (
+			requestedShell &&
+			this.ptyManager.validateShellPath(requestedShell)
+		) {
+			shells.push(requestedShell);
+		}
+
 		if (preferredShell && !shells.includes(preferredShell)) {
 			shells.push(preferredShell);
 		}
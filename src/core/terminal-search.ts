@@ -0,0 +1,448 @@
+/**
+ * Terminal Search
+ *
+ * Find in terminal with regex, case-sensitive and whole word options.
+ * Every match is highlighted, the current one is selected, and the
+ * results are reported as "N of M".
+ *
+ * xterm.js searches through the search addon and its decorations.
+ * ghostty-web has neither, so its buffer is scanned here and the matches
+ * are drawn in an overlay above the canvas, repositioned on scroll and
+ * render like the command decorations.
+ *
+ * @module core/terminal-search
+ */
+
+import type { SearchAddon } from "@xterm/addon-search";
+import type { Terminal as GhosttyTerminal, GhosttyCell } from "ghostty-web";
+import { withAlpha } from "./theme-colors";
+
+export interface TerminalSearchOptions {
+	regex: boolean;
+	caseSensitive: boolean;
+	wholeWord: boolean;
+}
+
+/** Highlight colors, in #RRGGBB as the xterm.js decorations require */
+export interface SearchHighlightColors {
+	match: string;
+	activeMatch: string;
+	/** Border of the current match */
+	activeBorder: string;
+}
+
+/**
+ * Current match (0-based, -1 for none or when there are more matches than
+ * the highlight limit) and the number of matches
+ */
+export interface SearchResults {
+	index: number;
+	count: number;
+}
+
+/**
+ * Common surface of the xterm.js and Ghostty searchers
+ */
+export interface TerminalSearcher {
+	/**
+	 * Move to the next or previous match and highlight all of them
+	 * Incremental search (while typing) keeps the current match if it still
+	 * matches. Returns false when nothing matched
+	 */
+	find(
+		query: string,
+		options: TerminalSearchOptions,
+		direction: "next" | "previous",
+		incremental?: boolean,
+	): boolean;
+	/** Remove the highlights and the selected match */
+	clear(): void;
+	updateColors(colors: SearchHighlightColors): void;
+	dispose(): void;
+}
+
+/** Matches highlighted at most, as in the xterm.js search addon */
+const HIGHLIGHT_LIMIT = 1000;
+
+/** Opacity of the Ghostty highlights, which lie on top of the text */
+const OVERLAY_OPACITY = 0.5;
+
+/**
+ * Regular expression for a query, or null when a regex query is invalid
+ * Whole word matches are not next to a letter, digit or underscore
+ */
+export function buildSearchPattern(
+	query: string,
+	options: TerminalSearchOptions,
+): RegExp | null {
+	let source = options.regex
+		? query
+		: query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	if (options.wholeWord) {
+		source = `(?<!\\w)(?:${source})(?!\\w)`;
+	}
+
+	try {
+		return new RegExp(source, options.caseSensitive ? "g" : "gi");
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * "3 of 12", "No results", or "1000+ results" past the highlight limit
+ */
+export function formatSearchResults(results: SearchResults): string {
+	if (results.count === 0) return "No results";
+	if (results.index < 0) return `${results.count}+ results`;
+	return `${results.index + 1} of ${results.count}`;
+}
+
+/**
+ * Search via the xterm.js search addon
+ */
+export class XtermSearcher implements TerminalSearcher {
+	private addon: SearchAddon;
+	private colors: SearchHighlightColors;
+	private resultsSubscription: { dispose(): void };
+
+	/**
+	 * @param onResults - Called whenever the match count or index changes
+	 */
+	constructor(
+		addon: SearchAddon,
+		colors: SearchHighlightColors,
+		onResults: (results: SearchResults) => void,
+	) {
+		this.addon = addon;
+		this.colors = colors;
+		this.resultsSubscription = addon.onDidChangeResults(
+			({ resultIndex, resultCount }) =>
+				onResults({ index: resultIndex, count: resultCount }),
+		);
+	}
+
+	find(
+		query: string,
+		options: TerminalSearchOptions,
+		direction: "next" | "previous",
+		incremental = false,
+	): boolean {
+		const searchOptions = {
+			...options,
+			incremental,
+			decorations: {
+				matchBackground: this.colors.match,
+				matchOverviewRuler: this.colors.activeBorder,
+				activeMatchBackground: this.colors.activeMatch,
+				activeMatchBorder: this.colors.activeBorder,
+				activeMatchColorOverviewRuler: this.colors.activeBorder,
+			},
+		};
+		return direction === "next"
+			? this.addon.findNext(query, searchOptions)
+			: this.addon.findPrevious(query, searchOptions);
+	}
+
+	clear(): void {
+		this.addon.clearDecorations();
+	}
+
+	updateColors(colors: SearchHighlightColors): void {
+		// Applied by the next find()
+		this.colors = colors;
+	}
+
+	dispose(): void {
+		this.resultsSubscription.dispose();
+		this.clear();
+	}
+}
+
+interface SearchMatch {
+	/** Buffer row, 0 = oldest scrollback line */
+	row: number;
+	col: number;
+	/** Width in cells */
+	width: number;
+}
+
+/**
+ * Search by scanning the ghostty-web buffer, with highlights in an overlay
+ * Rows are searched one by one, so matches do not span wrapped lines
+ */
+export class GhosttySearcher implements TerminalSearcher {
+	private terminal: GhosttyTerminal;
+	private container: HTMLElement;
+	private colors: SearchHighlightColors;
+	private onResults: (results: SearchResults) => void;
+	private matches: SearchMatch[] = [];
+	private active: SearchMatch | null = null;
+	private overlay: HTMLElement;
+	private disposables: Array<{ dispose(): void }> = [];
+	private frame: number | null = null;
+	private layout = "";
+
+	/**
+	 * @param terminal - ghostty-web Terminal instance
+	 * @param container - Element the terminal was opened in
+	 * @param onResults - Called whenever the match count or index changes
+	 */
+	constructor(
+		terminal: GhosttyTerminal,
+		container: HTMLElement,
+		colors: SearchHighlightColors,
+		onResults: (results: SearchResults) => void,
+	) {
+		this.terminal = terminal;
+		this.container = container;
+		this.colors = colors;
+		this.onResults = onResults;
+
+		if (getComputedStyle(container).position === "static") {
+			container.style.position = "relative";
+		}
+
+		this.overlay = container.createDiv();
+		this.overlay.style.position = "absolute";
+		this.overlay.style.inset = "0";
+		this.overlay.style.pointerEvents = "none";
+		this.overlay.style.overflow = "hidden";
+
+		this.disposables.push(
+			terminal.onScroll(() => this.scheduleUpdate()),
+			terminal.onRender(() => this.scheduleUpdate()),
+			terminal.onResize(() => this.scheduleUpdate()),
+		);
+	}
+
+	find(
+		query: string,
+		options: TerminalSearchOptions,
+		direction: "next" | "previous",
+		incremental = false,
+	): boolean {
+		const pattern = query ? buildSearchPattern(query, options) : null;
+		this.matches = pattern ? this.findMatches(pattern) : [];
+
+		const index = this.pickMatch(direction, incremental);
+		this.active = index < 0 ? null : this.matches[index];
+		if (this.active) {
+			this.reveal(this.active);
+		} else {
+			this.terminal.clearSelection();
+		}
+
+		this.layout = "";
+		this.scheduleUpdate();
+		this.onResults({
+			index: this.matches.length > HIGHLIGHT_LIMIT ? -1 : index,
+			count: Math.min(this.matches.length, HIGHLIGHT_LIMIT),
+		});
+		return !!this.active;
+	}
+
+	clear(): void {
+		this.matches = [];
+		this.active = null;
+		this.layout = "";
+		this.overlay.empty();
+		this.terminal.clearSelection();
+	}
+
+	updateColors(colors: SearchHighlightColors): void {
+		this.colors = colors;
+		this.layout = "";
+		this.scheduleUpdate();
+	}
+
+	dispose(): void {
+		if (this.frame !== null) cancelAnimationFrame(this.frame);
+		for (const disposable of this.disposables) disposable.dispose();
+		this.disposables = [];
+		this.overlay.remove();
+		this.matches = [];
+		this.active = null;
+	}
+
+	/**
+	 * Matches of every scrollback and screen row
+	 */
+	private findMatches(pattern: RegExp): SearchMatch[] {
+		const wasmTerm = this.terminal.wasmTerm;
+		if (!wasmTerm) return [];
+
+		const scrollback = wasmTerm.getScrollbackLength();
+		const matches: SearchMatch[] = [];
+		for (let row = 0; row < scrollback + this.terminal.rows; row++) {
+			const cells =
+				row < scrollback
+					? wasmTerm.getScrollbackLine(row)
+					: wasmTerm.getLine(row - scrollback);
+			if (cells) this.findInRow(cells, row, pattern, matches);
+		}
+		return matches;
+	}
+
+	private findInRow(
+		cells: GhosttyCell[],
+		row: number,
+		pattern: RegExp,
+		matches: SearchMatch[],
+	): void {
+		// Text of the row and the cell column of each UTF-16 unit in it
+		let text = "";
+		const columns: number[] = [];
+		cells.forEach((cell, col) => {
+			// Second half of a wide character
+			if (cell.width === 0) return;
+			const char =
+				cell.codepoint > 0 ? String.fromCodePoint(cell.codepoint) : " ";
+			text += char;
+			for (let i = 0; i < char.length; i++) columns.push(col);
+		});
+		columns.push(cells.length);
+
+		pattern.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(text))) {
+			if (match[0].length === 0) {
+				// Empty matches (e.g. "a*") would never advance
+				pattern.lastIndex++;
+				continue;
+			}
+			const end = match.index + match[0].length;
+			const lastCol = columns[end - 1];
+			matches.push({
+				row,
+				col: columns[match.index],
+				width:
+					lastCol +
+					Math.max(1, cells[lastCol].width) -
+					columns[match.index],
+			});
+		}
+	}
+
+	/**
+	 * Index of the match to move to, -1 when there is none
+	 * Starts from the current match, or the top of the viewport
+	 */
+	private pickMatch(
+		direction: "next" | "previous",
+		incremental: boolean,
+	): number {
+		if (this.matches.length === 0) return -1;
+
+		const from = this.active ?? {
+			row: this.getFirstRow(),
+			col: direction === "next" ? -1 : 0,
+			width: 0,
+		};
+		const compare = (m: SearchMatch) =>
+			m.row - from.row || m.col - from.col;
+
+		if (direction === "next") {
+			const index = this.matches.findIndex((m) =>
+				incremental && this.active ? compare(m) >= 0 : compare(m) > 0,
+			);
+			return index < 0 ? 0 : index;
+		}
+
+		for (let i = this.matches.length - 1; i >= 0; i--) {
+			if (compare(this.matches[i]) < 0) return i;
+		}
+		return this.matches.length - 1;
+	}
+
+	/**
+	 * Scroll a match into view (centered when it was off screen) and
+	 * select it
+	 */
+	private reveal(match: SearchMatch): void {
+		const rows = this.terminal.rows;
+		const scrollback = this.terminal.wasmTerm?.getScrollbackLength() ?? 0;
+		const firstRow = this.getFirstRow();
+		if (match.row < firstRow || match.row >= firstRow + rows) {
+			const top = match.row - Math.floor(rows / 2);
+			// ghostty-web's scrollToLine takes lines scrolled back from the bottom
+			this.terminal.scrollToLine(scrollback - Math.max(0, top));
+		}
+		this.terminal.select(
+			match.col,
+			match.row - this.getFirstRow(),
+			match.width,
+		);
+	}
+
+	/**
+	 * Buffer row at the top of the viewport
+	 */
+	private getFirstRow(): number {
+		const scrollback = this.terminal.wasmTerm?.getScrollbackLength() ?? 0;
+		// getViewportY() counts lines scrolled back from the bottom
+		return scrollback - Math.round(this.terminal.getViewportY());
+	}
+
+	private scheduleUpdate(): void {
+		if (this.frame !== null) return;
+		this.frame = requestAnimationFrame(() => {
+			this.frame = null;
+			this.update();
+		});
+	}
+
+	/**
+	 * Redraw the highlights of matches inside the viewport
+	 */
+	private update(): void {
+		const canvas = this.container.querySelector("canvas");
+		if (!canvas || this.terminal.rows === 0 || this.terminal.cols === 0) {
+			return;
+		}
+
+		const canvasRect = canvas.getBoundingClientRect();
+		const containerRect = this.container.getBoundingClientRect();
+		const cellWidth = canvasRect.width / this.terminal.cols;
+		const cellHeight = canvasRect.height / this.terminal.rows;
+		const left = canvasRect.left - containerRect.left;
+		const top = canvasRect.top - containerRect.top;
+		const firstRow = this.getFirstRow();
+
+		// onRender fires for every frame, only rebuild when the layout moved
+		const layout = [
+			firstRow,
+			canvasRect.width,
+			canvasRect.height,
+			left,
+			top,
+		].join(":");
+		if (layout === this.layout) return;
+		this.layout = layout;
+		this.overlay.empty();
+
+		const visible = this.matches
+			.slice(0, HIGHLIGHT_LIMIT)
+			.filter(
+				(m) =>
+					m.row >= firstRow && m.row < firstRow + this.terminal.rows,
+			);
+		for (const match of visible) {
+			const isActive = match === this.active;
+			const mark = this.overlay.createDiv();
+			mark.style.position = "absolute";
+			mark.style.left = `${left + match.col * cellWidth}px`;
+			mark.style.top = `${top + (match.row - firstRow) * cellHeight}px`;
+			mark.style.width = `${match.width * cellWidth}px`;
+			mark.style.height = `${cellHeight}px`;
+			mark.style.boxSizing = "border-box";
+			mark.style.background = withAlpha(
+				isActive ? this.colors.activeMatch : this.colors.match,
+				OVERLAY_OPACITY,
+			);
+			if (isActive) {
+				mark.style.border = `1px solid ${this.colors.activeBorder}`;
+			}
+		}
+	}
+}
@@ -0,0 +1,285 @@
+/**
+ * Theme Color Resolution
+ *
+ * In system mode every color slot is read from an Obsidian CSS variable
+ * or a literal color the user mapped it to. Bright colors without a
+ * mapping are derived from their normal color. applyMinimumContrast()
+ * then lifts colors that are hard to read on the background, for every
+ * theme and renderer.
+ *
+ * @module core/theme-colors
+ */
+
+import { THEME_COLOR_KEYS, type ThemeColorKey } from "./themes";
+import { getLuminance, isDarkColor, parseColor } from "./theme-formats";
+
+/**
+ * Slot to CSS variable ("--color-red") or literal color ("#ff5555");
+ * slots left out use DEFAULT_SYSTEM_COLORS
+ */
+export type SystemColorMapping = Partial<Record<ThemeColorKey, string>>;
+
+export interface SystemColorSource {
+	/** CSS variable or literal color */
+	source: string;
+	/** Used when the variable is not set by the Obsidian theme */
+	fallback: string;
+}
+
+/**
+ * Default mapping; bright colors not listed are derived
+ */
+export const DEFAULT_SYSTEM_COLORS: Partial<
+	Record<ThemeColorKey, SystemColorSource>
+> = {
+	background: { source: "--background-secondary", fallback: "#1e1e1e" },
+	foreground: { source: "--text-normal", fallback: "#d4d4d4" },
+	cursor: { source: "--text-accent", fallback: "#569cd6" },
+	cursorAccent: { source: "--background-secondary", fallback: "#1e1e1e" },
+	selectionBackground: {
+		source: "--text-selection",
+		fallback: "rgba(255, 255, 255, 0.3)",
+	},
+	black: { source: "--color-base-00", fallback: "#1e1e1e" },
+	red: { source: "--color-red", fallback: "#e93147" },
+	green: { source: "--color-green", fallback: "#08b94e" },
+	yellow: { source: "--color-yellow", fallback: "#e0ac00" },
+	blue: { source: "--color-blue", fallback: "#086ddd" },
+	magenta: { source: "--color-purple", fallback: "#7852ee" },
+	cyan: { source: "--color-cyan", fallback: "#00bfbc" },
+	white: { source: "--color-base-70", fallback: "#d4d4d4" },
+	brightBlack: { source: "--color-base-50", fallback: "#808080" },
+	brightWhite: { source: "--color-base-100", fallback: "#ffffff" },
+};
+
+/** Bright color to the normal color it is derived from */
+export const DERIVED_BRIGHT_COLORS: Partial<
+	Record<ThemeColorKey, ThemeColorKey>
+> = {
+	brightRed: "red",
+	brightGreen: "green",
+	brightYellow: "yellow",
+	brightBlue: "blue",
+	brightMagenta: "magenta",
+	brightCyan: "cyan",
+};
+
+/**
+ * Colors drawn as text on the background. Black is left alone: themes
+ * use it for backgrounds and it is meant to blend in on dark themes
+ */
+const CONTRAST_KEYS: ThemeColorKey[] = THEME_COLOR_KEYS.filter(
+	(key) =>
+		key !== "background" &&
+		key !== "cursorAccent" &&
+		key !== "selectionBackground" &&
+		key !== "black",
+);
+
+/** Lightness change of derived bright colors (HSL, 0-1) */
+const BRIGHT_LIGHTNESS_STEP = 0.12;
+
+/**
+ * Resolve system mode colors
+ *
+ * @param mapping - User overrides of DEFAULT_SYSTEM_COLORS
+ * @param styles - Computed style of the element the variables are read from
+ */
+export function resolveSystemColors(
+	mapping: SystemColorMapping,
+	styles: CSSStyleDeclaration,
+): Record<ThemeColorKey, string> {
+	const read = (source: string): string =>
+		source.startsWith("--")
+			? styles.getPropertyValue(source).trim()
+			: source;
+
+	const colors = {} as Record<ThemeColorKey, string>;
+	for (const key of THEME_COLOR_KEYS) {
+		const defaults = DEFAULT_SYSTEM_COLORS[key];
+		const source = mapping[key]?.trim() || defaults?.source;
+		if (!source) continue;
+
+		const value =
+			read(source) ||
+			(defaults && (read(defaults.source) || defaults.fallback));
+		if (value) colors[key] = cssColorToHex(value);
+	}
+
+	for (const key of THEME_COLOR_KEYS) {
+		const base = DERIVED_BRIGHT_COLORS[key];
+		if (base && !colors[key]) {
+			colors[key] = deriveBrightColor(colors[base], colors.background);
+		}
+	}
+	return colors;
+}
+
+/**
+ * Convert any CSS color to HEX format
+ * WebGL renderer requires HEX colors; translucent colors (the selection,
+ * see-through theme backgrounds) are returned as rgba()
+ */
+export function cssColorToHex(color: string): string {
+	if (color.startsWith("#")) {
+		return color;
+	}
+
+	// Use canvas to convert any CSS color to RGB
+	const canvas = document.createElement("canvas");
+	canvas.width = canvas.height = 1;
+	const ctx = canvas.getContext("2d");
+	if (!ctx) return color;
+
+	ctx.fillStyle = color;
+	ctx.fillRect(0, 0, 1, 1);
+	const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+
+	if (a < 255) {
+		return `rgba(${r}, ${g}, ${b}, ${(a / 255).toFixed(2)})`;
+	}
+	return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
+}
+
+/**
+ * Bright variant of a color: lighter on dark backgrounds, darker on light
+ * ones, so it stands out from the normal color either way
+ */
+export function deriveBrightColor(color: string, background: string): string {
+	const rgb = parseColor(color);
+	if (!rgb) return color;
+
+	const [h, s, l] = rgbToHsl(rgb);
+	const step = isDarkColor(background)
+		? BRIGHT_LIGHTNESS_STEP
+		: -BRIGHT_LIGHTNESS_STEP;
+	return hslToHex(h, s, clamp(l + step));
+}
+
+/**
+ * WCAG contrast ratio of two colors, from 1 (same) to 21
+ */
+export function getContrastRatio(a: string, b: string): number {
+	const [lighter, darker] = [getLuminance(a), getLuminance(b)].sort(
+		(x, y) => y - x,
+	);
+	return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Move a color's lightness away from the background until it has the
+ * given contrast ratio, keeping its hue. Returns the color unchanged when
+ * it already has enough contrast or either color cannot be parsed
+ */
+export function ensureContrast(
+	color: string,
+	background: string,
+	minimumRatio: number,
+): string {
+	const rgb = parseColor(color);
+	if (
+		!rgb ||
+		!parseColor(background) ||
+		getContrastRatio(color, background) >= minimumRatio
+	) {
+		return color;
+	}
+
+	const [h, s, l] = rgbToHsl(rgb);
+	const step = isDarkColor(background) ? 0.02 : -0.02;
+	let lightness = l;
+	let result = color;
+	while (lightness > 0 && lightness < 1) {
+		lightness = clamp(lightness + step);
+		result = hslToHex(h, s, lightness);
+		if (getContrastRatio(result, background) >= minimumRatio) break;
+	}
+	return result;
+}
+
+/**
+ * Copy of theme colors with text colors readable on the background
+ * A ratio of 1 or less turns the guard off
+ */
+export function applyMinimumContrast(
+	colors: Record<string, string>,
+	minimumRatio: number,
+): Record<string, string> {
+	if (minimumRatio <= 1 || !colors.background) return colors;
+
+	const result = { ...colors };
+	for (const key of CONTRAST_KEYS) {
+		if (result[key]) {
+			result[key] = ensureContrast(
+				result[key],
+				colors.background,
+				minimumRatio,
+			);
+		}
+	}
+	return result;
+}
+
+/**
+ * Opacity of a color, 1 for opaque or unparsable colors
+ */
+export function getColorAlpha(color: string): number {
+	return parseColor(color)?.[3] ?? 1;
+}
+
+/**
+ * Color as rgba() with its opacity multiplied by alpha
+ */
+export function withAlpha(color: string, alpha: number): string {
+	const rgb = parseColor(color);
+	if (!rgb) return color;
+	const [r, g, b] = rgb;
+	const a = Math.round((rgb[3] ?? 1) * alpha * 100) / 100;
+	return `rgba(${r}, ${g}, ${b}, ${a})`;
+}
+
+function rgbToHsl(rgb: number[]): [number, number, number] {
+	const [r, g, b] = rgb.slice(0, 3).map((channel) => channel / 255);
+	const max = Math.max(r, g, b);
+	const min = Math.min(r, g, b);
+	const l = (max + min) / 2;
+	if (max === min) return [0, 0, l];
+
+	const d = max - min;
+	const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+	let h: number;
+	if (max === r) {
+		h = (g - b) / d + (g < b ? 6 : 0);
+	} else if (max === g) {
+		h = (b - r) / d + 2;
+	} else {
+		h = (r - g) / d + 4;
+	}
+	return [h / 6, s, l];
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+	const toChannel = (t: number): number => {
+		const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+		const p = 2 * l - q;
+		const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+		if (x < 1 / 6) return p + (q - p) * 6 * x;
+		if (x < 1 / 2) return q;
+		if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+		return p;
+	};
+	return (
+		"#" +
+		[toChannel(h + 1 / 3), toChannel(h), toChannel(h - 1 / 3)]
+			.map((channel) =>
+				Math.round(clamp(channel) * 255)
+					.toString(16)
+					.padStart(2, "0"),
+			)
+			.join("")
+	);
+}
+
+function clamp(value: number): number {
+	return Math.min(1, Math.max(0, value));
+}
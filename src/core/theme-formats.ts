@@ -0,0 +1,612 @@
+/**
+ * Theme Import and Export
+ *
+ * Converts terminal color schemes between TerminalTheme and the formats
+ * of other terminals: iTerm2 (.itermcolors), Windows Terminal (JSON),
+ * Alacritty (TOML and the older YAML), Ghostty config and base16 YAML.
+ * base16 has no separate bright colors, so exporting to it is lossy.
+ *
+ * @module core/theme-formats
+ */
+
+import { parseYaml, stringifyYaml } from "obsidian";
+import {
+	ANSI_COLOR_KEYS,
+	THEME_COLOR_KEYS,
+	type TerminalTheme,
+	type ThemeColorKey,
+} from "./themes";
+
+export type ThemeFormat =
+	| "iterm"
+	| "windows-terminal"
+	| "alacritty-toml"
+	| "alacritty-yaml"
+	| "ghostty"
+	| "base16";
+
+export const THEME_FORMATS: Record<
+	ThemeFormat,
+	{ name: string; extension: string }
+> = {
+	iterm: { name: "iTerm2", extension: "itermcolors" },
+	"windows-terminal": { name: "Windows Terminal", extension: "json" },
+	"alacritty-toml": { name: "Alacritty (TOML)", extension: "toml" },
+	"alacritty-yaml": { name: "Alacritty (YAML)", extension: "yml" },
+	ghostty: { name: "Ghostty", extension: "conf" },
+	base16: { name: "base16", extension: "yaml" },
+};
+
+type ThemeColors = Partial<Record<ThemeColorKey, string>>;
+
+const ITERM_KEYS: Record<string, ThemeColorKey> = {
+	"Background Color": "background",
+	"Foreground Color": "foreground",
+	"Cursor Color": "cursor",
+	"Cursor Text Color": "cursorAccent",
+	"Selection Color": "selectionBackground",
+};
+ANSI_COLOR_KEYS.forEach((key, index) => {
+	ITERM_KEYS[`Ansi ${index} Color`] = key;
+});
+
+/** Windows Terminal calls magenta "purple" */
+const WINDOWS_TERMINAL_KEYS: Partial<Record<ThemeColorKey, string>> = {
+	cursor: "cursorColor",
+	magenta: "purple",
+	brightMagenta: "brightPurple",
+};
+
+/** Alacritty color names of ANSI 0-7 */
+const ALACRITTY_NAMES = [
+	"black",
+	"red",
+	"green",
+	"yellow",
+	"blue",
+	"magenta",
+	"cyan",
+	"white",
+];
+
+/** Alacritty setting path of the non-ANSI colors */
+const ALACRITTY_KEYS: Partial<Record<ThemeColorKey, string>> = {
+	background: "primary.background",
+	foreground: "primary.foreground",
+	cursor: "cursor.cursor",
+	cursorAccent: "cursor.text",
+	selectionBackground: "selection.background",
+};
+
+const GHOSTTY_KEYS: Partial<Record<ThemeColorKey, string>> = {
+	background: "background",
+	foreground: "foreground",
+	cursor: "cursor-color",
+	cursorAccent: "cursor-text",
+	selectionBackground: "selection-background",
+};
+
+/** Slot of each base16 color in a terminal palette (base16-shell) */
+const BASE16_KEYS: Partial<Record<ThemeColorKey, string>> = {
+	background: "base00",
+	foreground: "base05",
+	cursor: "base05",
+	cursorAccent: "base00",
+	selectionBackground: "base02",
+	black: "base00",
+	red: "base08",
+	green: "base0B",
+	yellow: "base0A",
+	blue: "base0D",
+	magenta: "base0E",
+	cyan: "base0C",
+	white: "base05",
+	brightBlack: "base03",
+	brightRed: "base08",
+	brightGreen: "base0B",
+	brightYellow: "base0A",
+	brightBlue: "base0D",
+	brightMagenta: "base0E",
+	brightCyan: "base0C",
+	brightWhite: "base07",
+};
+
+/**
+ * Guess the format of a scheme file from its name and content
+ */
+export function detectThemeFormat(
+	fileName: string,
+	content: string,
+): ThemeFormat | null {
+	const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+	const text = content.trim();
+
+	if (extension === "itermcolors" || text.startsWith("<?xml")) {
+		return "iterm";
+	}
+	if (extension === "json" || text.startsWith("{")) {
+		return "windows-terminal";
+	}
+	if (extension === "toml" || /^\s*\[colors[.\]]/m.test(text)) {
+		return "alacritty-toml";
+	}
+	if (/^\s*(?:scheme|palette|base00)\s*:/m.test(text)) {
+		return "base16";
+	}
+	if (extension === "yml" || extension === "yaml") {
+		return "alacritty-yaml";
+	}
+	if (/^\s*palette\s*=/m.test(text)) {
+		return "ghostty";
+	}
+	return null;
+}
+
+/**
+ * Read a color scheme
+ *
+ * @param fallbackName - Used when the file does not name the scheme
+ * @throws Error when the file cannot be read or lacks required colors
+ */
+export function importTheme(
+	content: string,
+	format: ThemeFormat,
+	fallbackName: string,
+): TerminalTheme {
+	switch (format) {
+		case "iterm":
+			return buildTheme(fallbackName, parseITermColors(content));
+		case "windows-terminal":
+			return parseWindowsTerminal(content, fallbackName);
+		case "alacritty-toml":
+			return buildTheme(
+				fallbackName,
+				readAlacrittyColors(parseToml(content)),
+			);
+		case "alacritty-yaml":
+			return buildTheme(
+				fallbackName,
+				readAlacrittyColors(flatten(parseYamlObject(content))),
+			);
+		case "ghostty":
+			return buildTheme(fallbackName, parseGhostty(content));
+		case "base16":
+			return parseBase16(content, fallbackName);
+	}
+}
+
+/**
+ * Write a theme in another terminal's format
+ */
+export function exportTheme(theme: TerminalTheme, format: ThemeFormat): string {
+	const colors = getHexColors(theme);
+
+	switch (format) {
+		case "iterm":
+			return exportITermColors(colors);
+		case "windows-terminal": {
+			const scheme: Record<string, string> = { name: theme.name };
+			for (const key of THEME_COLOR_KEYS) {
+				// Windows Terminal has no cursor text color
+				if (key === "cursorAccent") continue;
+				scheme[WINDOWS_TERMINAL_KEYS[key] ?? key] = colors[key];
+			}
+			return JSON.stringify(scheme, null, "\t") + "\n";
+		}
+		case "alacritty-toml":
+			return exportAlacrittyToml(theme.name, colors);
+		case "alacritty-yaml":
+			return stringifyYaml({ colors: toAlacrittyTree(colors) });
+		case "ghostty":
+			return exportGhostty(theme.name, colors);
+		case "base16": {
+			const palette: Record<string, string> = {};
+			// The first color mapped to a slot wins
+			for (const key of THEME_COLOR_KEYS) {
+				const slot = BASE16_KEYS[key];
+				if (slot && !(slot in palette)) {
+					palette[slot] = colors[key].slice(1);
+				}
+			}
+			// Slots no terminal color maps to
+			const fill = (slot: string, color: string) => {
+				if (!(slot in palette)) palette[slot] = color.slice(1);
+			};
+			fill("base01", colors.black);
+			fill("base04", colors.brightBlack);
+			fill("base06", colors.white);
+			fill("base09", colors.brightRed);
+			fill("base0F", colors.brightMagenta);
+			return stringifyYaml({
+				scheme: theme.name,
+				author: "",
+				...sortKeys(palette),
+			});
+		}
+	}
+}
+
+/**
+ * Whether a color is dark, by relative luminance
+ */
+export function isDarkColor(color: string): boolean {
+	return getLuminance(color) < 0.179;
+}
+
+/**
+ * WCAG relative luminance, 0 (black) to 1 (white)
+ */
+export function getLuminance(color: string): number {
+	const rgb = parseColor(color);
+	if (!rgb) return 0;
+	const [r, g, b] = rgb.slice(0, 3).map((channel) => {
+		const value = channel / 255;
+		return value <= 0.03928
+			? value / 12.92
+			: Math.pow((value + 0.055) / 1.055, 2.4);
+	});
+	return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Color as #rrggbb; translucent colors are blended over the background
+ */
+export function toHexColor(color: string, background = "#000000"): string {
+	const rgb = parseColor(color);
+	if (!rgb) return color;
+
+	const alpha = rgb[3] ?? 1;
+	const base = parseColor(background) ?? [0, 0, 0];
+	return (
+		"#" +
+		[0, 1, 2]
+			.map((i) => Math.round(rgb[i] * alpha + base[i] * (1 - alpha)))
+			.map((channel) => channel.toString(16).padStart(2, "0"))
+			.join("")
+	);
+}
+
+/**
+ * [r, g, b, alpha?] of a hex or rgb()/rgba() color
+ */
+export function parseColor(color: string): number[] | null {
+	const hex = normalizeColor(color);
+	if (hex) {
+		return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+	}
+
+	const match =
+		/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(
+			color.trim(),
+		);
+	if (!match) return null;
+	const rgb = [Number(match[1]), Number(match[2]), Number(match[3])];
+	return match[4] === undefined ? rgb : [...rgb, Number(match[4])];
+}
+
+/**
+ * "#rgb", "rrggbb", "0xrrggbb" etc. as "#rrggbb", or undefined
+ * YAML reads unquoted digit-only colors as numbers
+ */
+function normalizeColor(value: unknown): string | undefined {
+	let text: string;
+	if (typeof value === "number") {
+		text = String(value).padStart(6, "0");
+	} else if (typeof value === "string") {
+		text = value.trim();
+	} else {
+		return undefined;
+	}
+
+	const match = /^(?:#|0x)?([0-9a-f]{6}|[0-9a-f]{3})$/i.exec(text);
+	if (!match) return undefined;
+
+	const hex = match[1].toLowerCase();
+	return hex.length === 3
+		? "#" +
+				hex
+					.split("")
+					.map((digit) => digit + digit)
+					.join("")
+		: `#${hex}`;
+}
+
+/**
+ * Complete a theme from the colors found in a file
+ * Cursor and selection colors are derived when the file has none
+ */
+function buildTheme(name: string, colors: ThemeColors): TerminalTheme {
+	const required: ThemeColorKey[] = [
+		"background",
+		"foreground",
+		...ANSI_COLOR_KEYS,
+	];
+	const missing = required.filter((key) => !colors[key]);
+	if (missing.length > 0) {
+		throw new Error(`Missing colors: ${missing.join(", ")}`);
+	}
+
+	const complete = colors as Record<ThemeColorKey, string>;
+	return {
+		...complete,
+		name,
+		type: isDarkColor(complete.background) ? "dark" : "light",
+		cursor: colors.cursor ?? complete.foreground,
+		cursorAccent: colors.cursorAccent ?? complete.background,
+		selectionBackground: colors.selectionBackground ?? complete.brightBlack,
+	};
+}
+
+/**
+ * Every color of a theme as #rrggbb (the formats have no alpha)
+ */
+function getHexColors(theme: TerminalTheme): Record<ThemeColorKey, string> {
+	const colors = {} as Record<ThemeColorKey, string>;
+	for (const key of THEME_COLOR_KEYS) {
+		const color =
+			theme[key] ?? (key === "cursorAccent" ? theme.background : "");
+		colors[key] = toHexColor(color, theme.background);
+	}
+	return colors;
+}
+
+function parseITermColors(content: string): ThemeColors {
+	const doc = new DOMParser().parseFromString(content, "application/xml");
+	const root = doc.querySelector("plist > dict");
+	if (!root || doc.querySelector("parsererror")) {
+		throw new Error("Not an iTerm2 color scheme");
+	}
+
+	const colors: ThemeColors = {};
+	const children = Array.from(root.children);
+	children.forEach((child, index) => {
+		const key = ITERM_KEYS[child.textContent?.trim() ?? ""];
+		const dict = children[index + 1];
+		if (child.tagName !== "key" || !key || dict?.tagName !== "dict") {
+			return;
+		}
+
+		const components: Record<string, number> = {};
+		const entries = Array.from(dict.children);
+		entries.forEach((entry, entryIndex) => {
+			const value = entries[entryIndex + 1];
+			if (entry.tagName === "key" && value?.tagName === "real") {
+				components[entry.textContent?.trim() ?? ""] = Number(
+					value.textContent,
+				);
+			}
+		});
+
+		const channels = ["Red", "Green", "Blue"].map((channel) =>
+			Math.round((components[`${channel} Component`] ?? 0) * 255),
+		);
+		colors[key] = toHexColor(`rgb(${channels.join(", ")})`);
+	});
+	return colors;
+}
+
+function exportITermColors(colors: Record<ThemeColorKey, string>): string {
+	const entries = Object.entries(ITERM_KEYS).map(([name, key]) => {
+		const [r, g, b] = (parseColor(colors[key]) ?? [0, 0, 0]).map(
+			(channel) => (channel / 255).toFixed(6),
+		);
+		return [
+			`\t<key>${name}</key>`,
+			"\t<dict>",
+			"\t\t<key>Color Space</key>",
+			"\t\t<string>sRGB</string>",
+			"\t\t<key>Red Component</key>",
+			`\t\t<real>${r}</real>`,
+			"\t\t<key>Green Component</key>",
+			`\t\t<real>${g}</real>`,
+			"\t\t<key>Blue Component</key>",
+			`\t\t<real>${b}</real>`,
+			"\t\t<key>Alpha Component</key>",
+			"\t\t<real>1</real>",
+			"\t</dict>",
+		].join("\n");
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+		'<plist version="1.0">',
+		"<dict>",
+		...entries,
+		"</dict>",
+		"</plist>",
+		"",
+	].join("\n");
+}
+
+function parseWindowsTerminal(
+	content: string,
+	fallbackName: string,
+): TerminalTheme {
+	const data = JSON.parse(content) as Record<string, unknown>;
+	// A whole settings.json: take its first scheme
+	const scheme = (Array.isArray(data.schemes) ? data.schemes[0] : data) as
+		Record<string, unknown> | undefined;
+	if (!scheme || typeof scheme !== "object") {
+		throw new Error("No color scheme found");
+	}
+
+	const colors: ThemeColors = {};
+	for (const key of THEME_COLOR_KEYS) {
+		colors[key] = normalizeColor(scheme[WINDOWS_TERMINAL_KEYS[key] ?? key]);
+	}
+	const name = typeof scheme.name === "string" ? scheme.name : fallbackName;
+	return buildTheme(name, colors);
+}
+
+/**
+ * Alacritty colors from a flat "colors.normal.red" map
+ */
+function readAlacrittyColors(values: Record<string, unknown>): ThemeColors {
+	const colors: ThemeColors = {};
+	for (const [key, path] of Object.entries(ALACRITTY_KEYS)) {
+		colors[key as ThemeColorKey] = normalizeColor(values[`colors.${path}`]);
+	}
+	ANSI_COLOR_KEYS.forEach((key, index) => {
+		const group = index < 8 ? "normal" : "bright";
+		colors[key] = normalizeColor(
+			values[`colors.${group}.${ALACRITTY_NAMES[index % 8]}`],
+		);
+	});
+	return colors;
+}
+
+/**
+ * Alacritty "colors" table of a theme
+ */
+function toAlacrittyTree(
+	colors: Record<ThemeColorKey, string>,
+): Record<string, Record<string, string>> {
+	const tree: Record<string, Record<string, string>> = {};
+	const set = (path: string, color: string) => {
+		const [group, name] = path.split(".");
+		tree[group] = { ...tree[group], [name]: color };
+	};
+
+	for (const [key, path] of Object.entries(ALACRITTY_KEYS)) {
+		set(path, colors[key as ThemeColorKey]);
+	}
+	ANSI_COLOR_KEYS.forEach((key, index) => {
+		const group = index < 8 ? "normal" : "bright";
+		set(`${group}.${ALACRITTY_NAMES[index % 8]}`, colors[key]);
+	});
+	return tree;
+}
+
+function exportAlacrittyToml(
+	name: string,
+	colors: Record<ThemeColorKey, string>,
+): string {
+	const lines = [`# ${name}`];
+	for (const [group, values] of Object.entries(toAlacrittyTree(colors))) {
+		lines.push("", `[colors.${group}]`);
+		for (const [key, color] of Object.entries(values)) {
+			lines.push(`${key} = "${color}"`);
+		}
+	}
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * The subset of TOML color schemes use: tables and string values,
+ * flattened to "table.key" paths
+ */
+function parseToml(content: string): Record<string, string> {
+	const values: Record<string, string> = {};
+	let table = "";
+
+	for (const line of content.split(/\r?\n/)) {
+		const header = /^\s*\[\s*([\w.-]+)\s*\]/.exec(line);
+		if (header) {
+			table = header[1];
+			continue;
+		}
+
+		const entry =
+			/^\s*([\w.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s#]+))/.exec(line);
+		if (entry) {
+			const path = table ? `${table}.${entry[1]}` : entry[1];
+			values[path] = entry[2] ?? entry[3] ?? entry[4];
+		}
+	}
+	return values;
+}
+
+function parseYamlObject(content: string): Record<string, unknown> {
+	const data: unknown = parseYaml(content);
+	if (!data || typeof data !== "object") {
+		throw new Error("Not a YAML color scheme");
+	}
+	return data as Record<string, unknown>;
+}
+
+/**
+ * Nested objects as a flat "a.b.c" map
+ */
+function flatten(
+	data: Record<string, unknown>,
+	prefix = "",
+	result: Record<string, unknown> = {},
+): Record<string, unknown> {
+	for (const [key, value] of Object.entries(data)) {
+		const path = prefix ? `${prefix}.${key}` : key;
+		if (value && typeof value === "object" && !Array.isArray(value)) {
+			flatten(value as Record<string, unknown>, path, result);
+		} else {
+			result[path] = value;
+		}
+	}
+	return result;
+}
+
+function parseGhostty(content: string): ThemeColors {
+	const values: Record<string, string> = {};
+	const palette: string[] = [];
+
+	for (const line of content.split(/\r?\n/)) {
+		const entry = /^\s*([\w-]+)\s*=\s*(.+?)\s*$/.exec(line);
+		if (!entry) continue;
+
+		const paletteEntry = /^(\d+)\s*=\s*(\S+)$/.exec(entry[2]);
+		if (entry[1] === "palette" && paletteEntry) {
+			palette[Number(paletteEntry[1])] = paletteEntry[2];
+		} else {
+			values[entry[1]] = entry[2];
+		}
+	}
+
+	const colors: ThemeColors = {};
+	for (const [key, name] of Object.entries(GHOSTTY_KEYS)) {
+		colors[key as ThemeColorKey] = normalizeColor(values[name]);
+	}
+	ANSI_COLOR_KEYS.forEach((key, index) => {
+		colors[key] = normalizeColor(palette[index]);
+	});
+	return colors;
+}
+
+function exportGhostty(
+	name: string,
+	colors: Record<ThemeColorKey, string>,
+): string {
+	const lines = [`# ${name}`];
+	ANSI_COLOR_KEYS.forEach((key, index) => {
+		lines.push(`palette = ${index}=${colors[key]}`);
+	});
+	for (const [key, setting] of Object.entries(GHOSTTY_KEYS)) {
+		lines.push(`${setting} = ${colors[key as ThemeColorKey]}`);
+	}
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * base16 scheme, either the classic flat file or the newer one with a
+ * "palette" map
+ */
+function parseBase16(content: string, fallbackName: string): TerminalTheme {
+	const data = parseYamlObject(content);
+	const palette = (
+		data.palette && typeof data.palette === "object" ? data.palette : data
+	) as Record<string, unknown>;
+
+	const colors: ThemeColors = {};
+	for (const [key, slot] of Object.entries(BASE16_KEYS)) {
+		colors[key as ThemeColorKey] = normalizeColor(palette[slot]);
+	}
+
+	const name = data.scheme ?? data.name;
+	return buildTheme(typeof name === "string" ? name : fallbackName, colors);
+}
+
+function sortKeys(data: Record<string, string>): Record<string, string> {
+	const sorted: Record<string, string> = {};
+	for (const key of Object.keys(data).sort()) {
+		sorted[key] = data[key];
+	}
+	return sorted;
+}
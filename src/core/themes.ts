@@ -3,6 +3,8 @@
  *
  * Preset themes for xterm.js and ghostty-web terminal renderers.
  * Themes are categorized by dark/light mode for automatic switching.
+ * User themes from the settings are registered with setCustomThemes()
+ * and listed after the presets.
  *
  * @module core/themes
  */
@@ -44,6 +46,72 @@ export interface TerminalTheme {
 	brightWhite: string;
 }
 
+/**
+ * Color fields of a theme, in the order the theme editor shows them
+ */
+export type ThemeColorKey = Exclude<keyof TerminalTheme, "name" | "type">;
+
+/** ANSI colors 0-15 in palette order */
+export const ANSI_COLOR_KEYS: ThemeColorKey[] = [
+	"black",
+	"red",
+	"green",
+	"yellow",
+	"blue",
+	"magenta",
+	"cyan",
+	"white",
+	"brightBlack",
+	"brightRed",
+	"brightGreen",
+	"brightYellow",
+	"brightBlue",
+	"brightMagenta",
+	"brightCyan",
+	"brightWhite",
+];
+
+export const THEME_COLOR_KEYS: ThemeColorKey[] = [
+	"background",
+	"foreground",
+	"cursor",
+	"cursorAccent",
+	"selectionBackground",
+	...ANSI_COLOR_KEYS,
+];
+
+/** Names of the color fields shown in the settings */
+export const THEME_COLOR_LABELS: Record<ThemeColorKey, string> = {
+	background: "Background",
+	foreground: "Foreground",
+	cursor: "Cursor",
+	cursorAccent: "Cursor text",
+	selectionBackground: "Selection",
+	black: "Black",
+	red: "Red",
+	green: "Green",
+	yellow: "Yellow",
+	blue: "Blue",
+	magenta: "Magenta",
+	cyan: "Cyan",
+	white: "White",
+	brightBlack: "Bright black",
+	brightRed: "Bright red",
+	brightGreen: "Bright green",
+	brightYellow: "Bright yellow",
+	brightBlue: "Bright blue",
+	brightMagenta: "Bright magenta",
+	brightCyan: "Bright cyan",
+	brightWhite: "Bright white",
+};
+
+/**
+ * User theme saved in the settings
+ */
+export interface CustomTerminalTheme extends TerminalTheme {
+	id: string;
+}
+
 /**
  * Preset terminal themes
  *
@@ -368,27 +436,46 @@ export const PRESET_THEMES: Record<string, TerminalTheme> = {
 	},
 };
 
+// Custom themes from the settings, by ID
+let customThemes: Record<string, TerminalTheme> = {};
+
+/**
+ * Replace the registered custom themes (on load and after each save)
+ */
+export function setCustomThemes(themes: CustomTerminalTheme[]): void {
+	customThemes = {};
+	for (const { id, ...theme } of themes) {
+		customThemes[id] = theme;
+	}
+}
+
+/**
+ * Presets followed by custom themes
+ */
+function getAllThemes(): Array<{ id: string; theme: TerminalTheme }> {
+	return [
+		...Object.entries(PRESET_THEMES),
+		...Object.entries(customThemes),
+	].map(([id, theme]) => ({ id, theme }));
+}
+
 /**
  * Get all dark themes
  */
 export function getDarkThemes(): Array<{ id: string; theme: TerminalTheme }> {
-	return Object.entries(PRESET_THEMES)
-		.filter(([, theme]) => theme.type === "dark")
-		.map(([id, theme]) => ({ id, theme }));
+	return getAllThemes().filter(({ theme }) => theme.type === "dark");
 }
 
 /**
  * Get all light themes
  */
 export function getLightThemes(): Array<{ id: string; theme: TerminalTheme }> {
-	return Object.entries(PRESET_THEMES)
-		.filter(([, theme]) => theme.type === "light")
-		.map(([id, theme]) => ({ id, theme }));
+	return getAllThemes().filter(({ theme }) => theme.type === "light");
 }
 
 /**
- * Get theme by ID
+ * Get theme by ID (preset or custom)
  */
 export function getThemeById(id: string): TerminalTheme | undefined {
-	return PRESET_THEMES[id];
+	return PRESET_THEMES[id] ?? customThemes[id];
 }
@@ -6,12 +6,23 @@ import {
 	Menu,
 	debounce,
 	addIcon,
+	setIcon,
+	MarkdownPostProcessorContext,
+	MarkdownRenderChild,
+	TAbstractFile,
+	TFile,
+	TFolder,
+	normalizePath,
 } from "obsidian";
 import * as path from "path";
 import {
 	ITerminalPlugin,
 	TerminalPluginError,
 	TerminalErrorType,
+	TerminalSession,
+	TerminalReplay,
+	ScrollbackExportFormat,
+	ScrollbackExportRange,
 } from "@/types";
 import {
 	ElectronBridge,
@@ -19,23 +30,72 @@ import {
 	TerminalManager,
 	NativeBinaryManager,
 	BinaryStatus,
+	stripAnsi,
+	parseAsciicast,
+	type Asciicast,
+	HeadlessRunner,
+	describeHeadlessRun,
+	type HeadlessRun,
+	loadNoteSnippets,
+	parseSnippetPlaceholders,
+	fillSnippetPlaceholders,
+	TERMINAL_KEY_ACTIONS,
+	TERMINAL_KEY_ACTION_IDS,
 } from "@/core";
-import { TerminalView, resetGhosttyState } from "@/views";
+import {
+	TerminalView,
+	TerminalSessionsView,
+	CastPlayer,
+	CastPlayerView,
+	DropdownTerminal,
+	TerminalDock,
+	getFloatingLeafHost,
+	resetGhosttyState,
+} from "@/views";
+import {
+	BroadcastModal,
+	ConfirmModal,
+	ExportScrollbackModal,
+	PromptModal,
+	SessionPickerModal,
+	SnippetPickerModal,
+	SnippetVariablesModal,
+} from "@/modals";
 import {
 	TerminalSettingsTab,
 	DEFAULT_SETTINGS,
 	type TerminalPluginSettings,
+	type TerminalLocation,
+	type TerminalProfile,
+	type TerminalSnippet,
 	type ThemeMode,
 } from "@/settings";
-import { PRESET_THEMES } from "@/core/themes";
+import {
+	getThemeById,
+	setCustomThemes,
+	type CustomTerminalTheme,
+} from "@/core/themes";
+import {
+	exportTheme,
+	THEME_FORMATS,
+	type ThemeFormat,
+} from "@/core/theme-formats";
+import { applyMinimumContrast, resolveSystemColors } from "@/core/theme-colors";
+import { buildFontFamily } from "@/core/fonts";
 import {
 	PLUGIN_ID,
 	VIEW_TYPE_TERMINAL,
+	VIEW_TYPE_TERMINAL_SESSIONS,
+	VIEW_TYPE_CAST_PLAYER,
+	CAST_FILE_EXTENSION,
+	CAST_CODE_BLOCK_LANGUAGE,
 	COMMAND_OPEN_TERMINAL,
 	COMMAND_OPEN_TERMINAL_NAME,
+	RUNNABLE_CODE_LANGUAGES,
 	RIBBON_ICON_ID,
 	RIBBON_ICON_SVG,
 } from "@/constants";
+import { TerminalAPI } from "@/api";
 import "@/main.css";
 
 /**
@@ -46,12 +106,25 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 	terminalManager!: TerminalManager;
 	settings: TerminalPluginSettings | null = null;
 	themeColors: Record<string, string> = {};
+	/** Public API for other plugins; set once native modules are loaded */
+	api?: TerminalAPI;
 
 	private electronBridge!: ElectronBridge;
 	public ptyManager!: PTYManager;
+	public headlessRunner!: HeadlessRunner;
 	private binaryManager!: NativeBinaryManager;
 	private _pluginDir: string = "";
 	private _nativeModulesReady: boolean = false;
+	// Profile IDs that currently have an "Open profile" command
+	private profileCommandIds: Set<string> = new Set();
+	// Snippet IDs with a registered "Run snippet" command
+	private snippetCommandIds: Set<string> = new Set();
+	// Terminal that last had focus, target for code blocks run from notes
+	private lastTerminalView: TerminalView | null = null;
+	// Created on first toggle
+	private dropdownTerminal: DropdownTerminal | null = null;
+	// Created when the first docked terminal opens
+	private terminalDock: TerminalDock | null = null;
 
 	/**
 	 * Called when the plugin is loaded
@@ -91,6 +164,7 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 
 			// Initialize core components
 			await this.initializeComponents();
+			this.api = new TerminalAPI(this);
 
 			// Register view types
 			this.registerViews();
@@ -98,10 +172,21 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 			// Register commands
 			this.registerCommands();
 
+			// Add "Run in terminal" buttons to shell code blocks
+			this.registerMarkdownPostProcessor((el) => {
+				this.addRunButtons(el);
+			});
+
+			// Render `terminal-replay` blocks as asciicast players
+			this.registerMarkdownCodeBlockProcessor(
+				CAST_CODE_BLOCK_LANGUAGE,
+				(source, el, ctx) => this.renderCastCodeBlock(source, el, ctx),
+			);
+
 			// Add Ribbon Icon for quick terminal access
 			addIcon(RIBBON_ICON_ID, RIBBON_ICON_SVG);
 			this.addRibbonIcon(RIBBON_ICON_ID, "New Terminal", () => {
-				this.openTerminal(true);
+				this.openTerminal();
 			});
 
 			// Initialize theme colors (must be after DOM is ready)
@@ -110,6 +195,13 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 			// Set up event handlers
 			this.setupEventHandlers();
 
+			// Snippet notes can only be read once the vault is indexed, and
+			// the dock opens on top of the restored layout
+			this.app.workspace.onLayoutReady(() => {
+				void this.syncSnippetCommands();
+				void this.restoreTerminalDock();
+			});
+
 			console.log(`${PLUGIN_ID} loaded successfully`);
 		} catch (error) {
 			console.error(`Failed to load ${PLUGIN_ID}:`, error);
@@ -345,11 +437,27 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 		try {
 			console.log(`Unloading ${PLUGIN_ID}...`);
 
+			// Save the docked terminals while their sessions still run
+			void this.saveDockState();
+
 			// Clean up terminal manager
 			if (this.terminalManager) {
 				this.terminalManager.cleanup();
 			}
 
+			// Close the drop-down terminal and the dock (not part of the layout)
+			if (this.dropdownTerminal) {
+				this.dropdownTerminal.destroy();
+			}
+			if (this.terminalDock) {
+				this.terminalDock.destroy();
+			}
+
+			// Stop background commands (child processes are not PTYs)
+			if (this.headlessRunner) {
+				this.headlessRunner.cancelAll();
+			}
+
 			// Clean up PTY manager
 			if (this.ptyManager) {
 				this.ptyManager.cleanup();
@@ -366,48 +474,601 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 
 	/**
 	 * Open a new terminal view
-	 * @param asTab If true, opens in a new tab instead of split
+	 * @param location Where to open it, defaults to the location setting
+	 * @param profile Optional launch profile (shell, env, cwd, renderer, theme)
+	 * @param cwd Optional starting directory, overrides the profile's
 	 */
-	async openTerminal(asTab = false): Promise<void> {
+	async openTerminal(
+		location?: TerminalLocation,
+		profile?: TerminalProfile,
+		cwd?: string,
+	): Promise<void> {
 		try {
 			// Create a new terminal session
-			const session =
-				await this.terminalManager.createTerminalWithAvailableShell();
+			const session = await this.createSession(profile, cwd);
 
-			// Create the view - use tab or split based on parameter
-			const leaf = asTab
-				? this.app.workspace.getLeaf(true)
-				: this.getOrCreateTerminalLeaf();
-			const view = new TerminalView(leaf, session, this);
+			await this.openSessionView(session, location);
+		} catch (error) {
+			console.error("Failed to open terminal:", error);
 
-			// Set the view
-			leaf.setViewState({
-				type: VIEW_TYPE_TERMINAL,
-				active: true,
-			});
+			if (error instanceof TerminalPluginError) {
+				this.showNotice(error.getUserMessage());
+			} else {
+				this.showNotice(
+					"Failed to open terminal. Check console for details.",
+				);
+			}
+		}
+	}
 
-			// Focus the terminal
-			this.app.workspace.setActiveLeaf(leaf);
+	/**
+	 * Spawn a session, optionally from a launch profile and directory
+	 * The directory is validated by PTYManager, which falls back to HOME
+	 */
+	async createSession(
+		profile?: TerminalProfile,
+		cwd?: string,
+	): Promise<TerminalSession> {
+		const session =
+			await this.terminalManager.createTerminalWithAvailableShell(
+				undefined,
+				{ ...profile, cwd: cwd || profile?.cwd },
+			);
+		session.profileId = profile?.id;
+		return session;
+	}
 
-			// Focus the terminal after a short delay to ensure it's rendered
-			setTimeout(() => {
-				if (view.terminal) {
-					view.focus();
-				}
-			}, 100);
+	/**
+	 * Open a terminal in the folder of a file, or in the folder itself
+	 */
+	openTerminalHere(file: TAbstractFile): Promise<void> {
+		return this.openTerminal(
+			undefined,
+			undefined,
+			this.getAbsoluteFolder(file),
+		);
+	}
+
+	/**
+	 * Absolute path of a vault folder, or of the folder containing a file
+	 */
+	private getAbsoluteFolder(file: TAbstractFile): string {
+		const folder = file instanceof TFolder ? file : file.parent;
+		return path.join(this.getVaultPath(), folder?.path ?? "");
+	}
+
+	/**
+	 * Send commands to the last focused terminal, or a new one,
+	 * and press Enter
+	 */
+	async runInTerminal(text: string): Promise<void> {
+		try {
+			const view = this.getRunTargetView();
+			const session =
+				view?.terminalSession ?? (await this.createSession());
+			if (!view) {
+				await this.openSessionView(session);
+			} else {
+				await this.revealTerminalView(view);
+			}
+
+			this.terminalManager.sendText(session.id, text, true);
 		} catch (error) {
-			console.error("Failed to open terminal:", error);
+			console.error("Failed to run in terminal:", error);
 
 			if (error instanceof TerminalPluginError) {
 				this.showNotice(error.getUserMessage());
 			} else {
 				this.showNotice(
-					"Failed to open terminal. Check console for details.",
+					"Failed to run in terminal. Check console for details.",
 				);
 			}
 		}
 	}
 
+	/**
+	 * Snippets from the settings followed by those in the snippet folder
+	 */
+	async getSnippets(): Promise<TerminalSnippet[]> {
+		const noteSnippets = await loadNoteSnippets(
+			this.app,
+			this.settings?.snippetFolder ?? "",
+		);
+		return [...(this.settings?.snippets ?? []), ...noteSnippets];
+	}
+
+	/**
+	 * Ask for the snippet's placeholder values, then send it
+	 */
+	runSnippet(snippet: TerminalSnippet): void {
+		const placeholders = parseSnippetPlaceholders(snippet.command);
+		const send = (values: Record<string, string>) => {
+			this.sendSnippet(
+				snippet,
+				fillSnippetPlaceholders(snippet.command, values),
+			).catch((error) => {
+				console.error("Failed to run snippet:", error);
+				this.showNotice(
+					"Failed to run snippet. Check console for details.",
+				);
+			});
+		};
+
+		if (placeholders.length === 0) {
+			send({});
+			return;
+		}
+		new SnippetVariablesModal(this.app, {
+			snippetName: snippet.name,
+			placeholders,
+			onSubmit: send,
+		}).open();
+	}
+
+	/**
+	 * Send a snippet to the focused terminal, or to a new one when the
+	 * focused terminal has another profile or directory than the snippet
+	 */
+	private async sendSnippet(
+		snippet: TerminalSnippet,
+		command: string,
+	): Promise<void> {
+		const profile = snippet.profileId
+			? (this.getProfile(snippet.profileId) ??
+				this.settings?.profiles.find(
+					(candidate) => candidate.name === snippet.profileId,
+				))
+			: undefined;
+		if (snippet.profileId && !profile) {
+			this.showNotice(`Snippet profile not found: ${snippet.profileId}`);
+			return;
+		}
+		const cwd = snippet.cwd
+			? path.resolve(this.getVaultPath(), snippet.cwd)
+			: undefined;
+
+		const view = this.getRunTargetView();
+		const matches =
+			view &&
+			(!profile || view.terminalSession.profileId === profile.id) &&
+			(!cwd || path.resolve(view.getWorkingDirectory()) === cwd);
+		if (matches || (!profile && !cwd)) {
+			await this.runInTerminal(command);
+			return;
+		}
+
+		const session = await this.createSession(profile, cwd);
+		await this.openSessionView(session);
+		this.terminalManager.sendText(session.id, command, true);
+	}
+
+	/**
+	 * Focus the terminal after (offset 1) or before (offset -1) a view,
+	 * in the order of getTerminalViews(), wrapping around
+	 */
+	async focusAdjacentTerminal(
+		view: TerminalView,
+		offset: number,
+	): Promise<void> {
+		const views = this.getTerminalViews();
+		const index = views.indexOf(view);
+		if (index === -1 || views.length < 2) return;
+
+		const next = views[(index + offset + views.length) % views.length];
+		await this.revealTerminalView(next);
+		this.app.workspace.setActiveLeaf(next.leaf, { focus: true });
+		next.focus();
+	}
+
+	/**
+	 * Stop broadcasting, or pick the terminals to broadcast input to
+	 * Terminals already in the group (or all of them) start selected
+	 */
+	toggleBroadcastInput(): void {
+		const manager = this.terminalManager;
+		if (manager.getBroadcastSessions().length > 0) {
+			manager.stopBroadcast();
+			this.showNotice("Stopped broadcasting input");
+			return;
+		}
+
+		const views = this.getTerminalViews().filter(
+			(view) => view.terminalSession?.isActive,
+		);
+		if (views.length < 2) {
+			this.showNotice("Open at least two terminals to broadcast input");
+			return;
+		}
+
+		new BroadcastModal(
+			this.app,
+			views.map((view) => ({
+				sessionId: view.terminalSession.id,
+				title: view.getDisplayText(),
+				selected: true,
+			})),
+			(sessionIds) => {
+				for (const view of views) {
+					const { id } = view.terminalSession;
+					manager.setBroadcast(id, sessionIds.includes(id));
+				}
+			},
+		).open();
+	}
+
+	/**
+	 * Ask for a command and run it in the vault folder without a terminal
+	 */
+	private promptBackgroundCommand(): void {
+		new PromptModal(this.app, {
+			title: "Run command in background",
+			placeholder: "git pull",
+			submitText: "Run",
+			onSubmit: (command) => {
+				if (!command.trim()) return;
+
+				const seconds =
+					this.settings?.backgroundCommandTimeout ??
+					DEFAULT_SETTINGS.backgroundCommandTimeout;
+				this.headlessRunner
+					.run(command, {
+						profile: { cwd: this.getVaultPath() },
+						timeout: seconds * 1000,
+					})
+					.catch((error) => {
+						// Already reported in the notice
+						console.error("Background command failed:", error);
+					});
+			},
+		}).open();
+	}
+
+	/**
+	 * Open a terminal in the folder a background command ran in,
+	 * with the command's output above the prompt
+	 */
+	async showRunInTerminal(run: HeadlessRun): Promise<void> {
+		const session = await this.createSession(undefined, run.cwd);
+		// Child process output has bare LFs; a PTY already sends CRLF
+		const output = run.pipe
+			? run.output.replace(/\r?\n/g, "\r\n")
+			: run.output;
+
+		await this.openSessionView(session, undefined, undefined, {
+			buffer: `$ ${run.command}\r\n${output}`,
+			banner: `${run.command}: ${describeHeadlessRun(run)}`,
+		});
+	}
+
+	/**
+	 * Terminal that should receive input sent from a note
+	 */
+	private getRunTargetView(): TerminalView | null {
+		const views = this.getTerminalViews().filter(
+			(view) => view.terminalSession?.isActive,
+		);
+		const active = this.getActiveTerminalView();
+
+		if (active && views.includes(active)) return active;
+		if (this.lastTerminalView && views.includes(this.lastTerminalView)) {
+			return this.lastTerminalView;
+		}
+		return views[0] ?? null;
+	}
+
+	/**
+	 * Add a "Run in terminal" button to every shell code block
+	 */
+	private addRunButtons(el: HTMLElement): void {
+		const languages: readonly string[] = RUNNABLE_CODE_LANGUAGES;
+
+		el.querySelectorAll("pre > code").forEach((codeEl) => {
+			const language = Array.from(codeEl.classList)
+				.find((cls) => cls.startsWith("language-"))
+				?.slice("language-".length)
+				.toLowerCase();
+			if (!language || !languages.includes(language)) return;
+
+			const preEl = codeEl.parentElement;
+			if (!preEl || preEl.querySelector(".terminal-run-code-button")) {
+				return;
+			}
+
+			const button = preEl.createEl("button", {
+				cls: "terminal-run-code-button",
+				attr: { "aria-label": "Run in terminal" },
+			});
+			setIcon(button, "play");
+			button.addEventListener("click", (evt: MouseEvent) => {
+				evt.preventDefault();
+				evt.stopPropagation();
+				this.confirmAndRun(codeEl.textContent ?? "");
+			});
+		});
+	}
+
+	/**
+	 * Run code block contents, asking first when enabled in settings
+	 */
+	private confirmAndRun(code: string): void {
+		const text = code.replace(/\n+$/, "");
+		if (!text.trim()) return;
+
+		const confirm =
+			this.settings?.confirmCodeBlockRun ??
+			DEFAULT_SETTINGS.confirmCodeBlockRun;
+		if (!confirm) {
+			this.runInTerminal(text);
+			return;
+		}
+
+		new ConfirmModal(this.app, {
+			title: "Run in terminal",
+			message: "Send these commands to the terminal?",
+			preview: text,
+			confirmText: "Run",
+			onConfirm: () => {
+				this.runInTerminal(text);
+			},
+		}).open();
+	}
+
+	/**
+	 * Wrap text in a fenced code block that its own backticks cannot close
+	 */
+	private toCodeFence(text: string): string {
+		const longestRun = Math.max(
+			0,
+			...(text.match(/`+/g) ?? []).map((run) => run.length),
+		);
+		const fence = "`".repeat(Math.max(3, longestRun + 1));
+		return `${fence}\n${text.replace(/\s+$/, "")}\n${fence}`;
+	}
+
+	/**
+	 * Write a terminal's buffer to a new vault file
+	 * Markdown exports open as a note; HTML and ANSI files are only created
+	 */
+	async exportScrollback(
+		view: TerminalView,
+		format: ScrollbackExportFormat,
+		range: ScrollbackExportRange,
+	): Promise<void> {
+		const content = view.exportScrollback(format, range);
+		if (!content.trim()) {
+			this.showNotice("Nothing to export");
+			return;
+		}
+
+		const extension = { markdown: "md", html: "html", ansi: "ansi" }[
+			format
+		];
+		const data =
+			format === "markdown"
+				? `${this.toCodeFence(stripAnsi(content))}\n`
+				: content;
+
+		const file = await this.createTimestampedFile(
+			"Terminal",
+			extension,
+			data,
+		);
+		if (format === "markdown") {
+			await this.app.workspace.getLeaf("tab").openFile(file);
+		} else {
+			this.showNotice(`Scrollback exported to ${file.path}`);
+		}
+	}
+
+	/**
+	 * Save an asciicast recording as a .cast file in the vault
+	 */
+	async saveRecording(content: string): Promise<void> {
+		const file = await this.createTimestampedFile(
+			"Terminal recording",
+			CAST_FILE_EXTENSION,
+			content,
+		);
+		this.showNotice(`Recording saved to ${file.path}`);
+	}
+
+	/**
+	 * Save a theme in another terminal's format to the vault
+	 */
+	async saveThemeExport(
+		theme: CustomTerminalTheme,
+		format: ThemeFormat,
+	): Promise<void> {
+		const file = await this.createTimestampedFile(
+			theme.name.replace(/[\\/:*?"<>|]/g, "-"),
+			THEME_FORMATS[format].extension,
+			exportTheme(theme, format),
+		);
+		this.showNotice(`Theme exported to ${file.path}`);
+	}
+
+	/**
+	 * Create "<prefix> YYYY-MM-DD HHmmss.<ext>" in the folder for new notes,
+	 * adding a counter when the name is taken
+	 */
+	private async createTimestampedFile(
+		prefix: string,
+		extension: string,
+		data: string,
+	): Promise<TFile> {
+		const activePath = this.app.workspace.getActiveFile()?.path ?? "";
+		const folder = this.app.fileManager.getNewFileParent(activePath);
+		const now = new Date();
+		const pad = (n: number) => n.toString().padStart(2, "0");
+		const date = [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+			.map(pad)
+			.join("-");
+		const time = [now.getHours(), now.getMinutes(), now.getSeconds()]
+			.map(pad)
+			.join("");
+		const baseName = `${prefix} ${date} ${time}`;
+
+		let filePath = normalizePath(`${folder.path}/${baseName}.${extension}`);
+		for (let i = 1; this.app.vault.getAbstractFileByPath(filePath); i++) {
+			filePath = normalizePath(
+				`${folder.path}/${baseName} ${i}.${extension}`,
+			);
+		}
+
+		return this.app.vault.create(filePath, data);
+	}
+
+	/**
+	 * Read-only asciicast player styled like the terminal views
+	 */
+	createCastPlayer(containerEl: HTMLElement, cast: Asciicast): CastPlayer {
+		return new CastPlayer(containerEl, cast, {
+			theme: this.getThemeColors(),
+			fontSize: this.settings?.fontSize ?? DEFAULT_SETTINGS.fontSize,
+			fontFamily: buildFontFamily(
+				this.settings?.fontFamily || DEFAULT_SETTINGS.fontFamily,
+				this.settings?.fontFallback ?? DEFAULT_SETTINGS.fontFallback,
+			),
+		});
+	}
+
+	/**
+	 * Render a `terminal-replay` code block
+	 * The block holds a link or path to a .cast file, or the cast itself
+	 */
+	private async renderCastCodeBlock(
+		source: string,
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+	): Promise<void> {
+		try {
+			const text = await this.loadCastSource(source, ctx.sourcePath);
+			const player = this.createCastPlayer(el, parseAsciicast(text));
+			const child = new MarkdownRenderChild(el);
+			child.register(() => player.destroy());
+			ctx.addChild(child);
+		} catch (error) {
+			el.createDiv({
+				cls: "terminal-cast-error",
+				text: `Cannot play recording: ${error instanceof Error ? error.message : String(error)}`,
+			});
+		}
+	}
+
+	private async loadCastSource(
+		source: string,
+		sourcePath: string,
+	): Promise<string> {
+		const trimmed = source.trim();
+		if (trimmed.startsWith("{")) return trimmed;
+
+		const linkPath = trimmed.replace(/^!?\[\[|\]\]$/g, "").split("|")[0];
+		const file = this.app.metadataCache.getFirstLinkpathDest(
+			linkPath,
+			sourcePath,
+		);
+		if (!file) {
+			throw new Error(`${linkPath} not found`);
+		}
+		return this.app.vault.cachedRead(file);
+	}
+
+	/**
+	 * Look up a launch profile by ID
+	 */
+	getProfile(id: string | undefined): TerminalProfile | undefined {
+		if (!id) return undefined;
+		return this.settings?.profiles.find((profile) => profile.id === id);
+	}
+
+	/**
+	 * Theme colors for a view, honoring a profile's preset theme, with text
+	 * colors lifted to the minimum contrast
+	 */
+	getThemeColors(presetId?: string): Record<string, string> {
+		return applyMinimumContrast(
+			(presetId && this.getPresetColors(presetId)) || this.themeColors,
+			this.settings?.minimumContrastRatio ??
+				DEFAULT_SETTINGS.minimumContrastRatio,
+		);
+	}
+
+	/**
+	 * Show an existing session in a new terminal view
+	 * @param location Where to open it, defaults to the location setting
+	 * @param targetLeaf Leaf to use instead (e.g. a popout window)
+	 */
+	async openSessionView(
+		session: TerminalSession,
+		location?: TerminalLocation,
+		targetLeaf?: WorkspaceLeaf,
+		replay?: TerminalReplay,
+	): Promise<void> {
+		// Create the view - use the given leaf or one at the location
+		const leaf =
+			targetLeaf ??
+			this.getTerminalLeaf(
+				location ??
+					this.settings?.terminalLocation ??
+					DEFAULT_SETTINGS.terminalLocation,
+			);
+
+		// Set the view - the view attaches to the session in setState()
+		await leaf.setViewState({
+			type: VIEW_TYPE_TERMINAL,
+			active: true,
+			state: { sessionId: session.id, replay },
+		});
+
+		// Focus the terminal
+		if (leaf.view instanceof TerminalView) {
+			await this.revealTerminalView(leaf.view);
+		}
+		this.app.workspace.setActiveLeaf(leaf);
+
+		// Focus the terminal after a short delay to ensure it's rendered
+		setTimeout(() => {
+			const view = leaf.view;
+			if (view instanceof TerminalView && view.terminal) {
+				view.focus();
+			}
+		}, 100);
+	}
+
+	/**
+	 * Bring a terminal view to the front, showing the dock or the
+	 * drop-down panel when it lives there
+	 */
+	async revealTerminalView(view: TerminalView): Promise<void> {
+		if (this.terminalDock?.contains(view.leaf)) {
+			this.terminalDock.reveal(view.leaf);
+		} else if (this.dropdownTerminal?.view === view) {
+			await this.dropdownTerminal.show();
+		} else {
+			await this.app.workspace.revealLeaf(view.leaf);
+		}
+	}
+
+	/**
+	 * Reveal the session manager panel, creating it in the right sidebar if needed
+	 */
+	async activateSessionsView(): Promise<void> {
+		const { workspace } = this.app;
+
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_TERMINAL_SESSIONS)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({
+				type: VIEW_TYPE_TERMINAL_SESSIONS,
+				active: true,
+			});
+		}
+
+		workspace.revealLeaf(leaf);
+	}
+
 	/**
 	 * Initialize core components
 	 */
@@ -481,6 +1142,17 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 
 		// Initialize terminal manager
 		this.terminalManager = new TerminalManager(this.ptyManager);
+
+		// Background commands report progress in the status bar
+		this.headlessRunner = new HeadlessRunner(
+			this.ptyManager,
+			this.addStatusBarItem(),
+			(run) => {
+				this.showRunInTerminal(run).catch((error) => {
+					console.error("Failed to show command output:", error);
+				});
+			},
+		);
 	}
 
 	/**
@@ -490,11 +1162,23 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 		// Register terminal view
 		this.registerView(VIEW_TYPE_TERMINAL, (leaf: WorkspaceLeaf) => {
 			// This factory function is called when Obsidian needs to create the view
-			// We'll create a placeholder session for workspace restoration
-			const session = this.terminalManager.createTerminal();
-			return new TerminalView(leaf, session, this);
+			// The session is attached (or restored from a snapshot) in setState()
+			return new TerminalView(leaf, this);
 		});
 
+		// Register session manager side panel
+		this.registerView(
+			VIEW_TYPE_TERMINAL_SESSIONS,
+			(leaf: WorkspaceLeaf) => new TerminalSessionsView(leaf, this),
+		);
+
+		// Register asciicast player for .cast files
+		this.registerView(
+			VIEW_TYPE_CAST_PLAYER,
+			(leaf: WorkspaceLeaf) => new CastPlayerView(leaf, this),
+		);
+		this.registerExtensions([CAST_FILE_EXTENSION], VIEW_TYPE_CAST_PLAYER);
+
 		this.registerHoverLinkSource("terminal", {
 			display: "Terminal",
 			defaultMod: true,
@@ -548,22 +1232,270 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 		});
 
 		this.addCommand({
-			id: "clear-terminal",
-			name: "Clear Terminal",
+			id: "open-terminal-here",
+			name: "Open terminal here",
 			checkCallback: (checking: boolean) => {
-				const activeLeaf =
-					this.app.workspace.getActiveViewOfType(TerminalView);
-				if (activeLeaf) {
-					if (!checking) {
-						activeLeaf.clear();
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) {
+					this.openTerminalHere(file);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "insert-terminal-output",
+			name: "Insert selection / last command output into active note",
+			editorCheckCallback: (checking, editor) => {
+				const view = this.getRunTargetView();
+				if (!view) return false;
+				if (!checking) {
+					const text =
+						view.getSelectionText() || view.getLastCommandOutput();
+					if (!text) {
+						this.showNotice(
+							"No terminal selection or command output found",
+						);
+						return true;
 					}
-					return true;
+
+					const cursor = editor.getCursor();
+					const prefix =
+						editor.getLine(cursor.line).slice(0, cursor.ch).trim()
+							? "\n"
+							: "";
+					editor.replaceSelection(
+						`${prefix}${this.toCodeFence(stripAnsi(text))}\n`,
+					);
 				}
-				return false;
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "export-scrollback",
+			name: "Export scrollback to note",
+			checkCallback: (checking: boolean) => {
+				const view = this.getRunTargetView();
+				if (!view) return false;
+				if (!checking) {
+					new ExportScrollbackModal(this.app, {
+						hasSelection: !!view.getSelectionText(),
+						onSubmit: (format, range) => {
+							this.exportScrollback(view, format, range).catch(
+								(error) => {
+									console.error(
+										"Failed to export scrollback:",
+										error,
+									);
+									this.showNotice(
+										`Failed to export scrollback: ${error instanceof Error ? error.message : String(error)}`,
+									);
+								},
+							);
+						},
+					}).open();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "run-snippet",
+			name: "Run snippet…",
+			callback: () => {
+				this.getSnippets()
+					.then((snippets) => {
+						new SnippetPickerModal(this.app, snippets, (snippet) =>
+							this.runSnippet(snippet),
+						).open();
+					})
+					.catch((error) => {
+						console.error("Failed to load snippets:", error);
+					});
 			},
 		});
+
+		this.addCommand({
+			id: "run-command-in-background",
+			name: "Run command in background…",
+			callback: () => {
+				this.promptBackgroundCommand();
+			},
+		});
+
+		this.addCommand({
+			id: "toggle-terminal-dock",
+			name: "Toggle terminal dock",
+			callback: () => {
+				const dock = this.getTerminalDock();
+				if (!dock) {
+					void this.openTerminal("tab");
+					return;
+				}
+				dock.toggle().catch((error) => {
+					console.error("Failed to toggle terminal dock:", error);
+				});
+			},
+		});
+
+		this.addCommand({
+			id: "toggle-dropdown-terminal",
+			name: "Toggle drop-down terminal",
+			callback: () => {
+				const dropdown = this.getDropdownTerminal();
+				if (!dropdown) {
+					void this.openTerminal("tab");
+					return;
+				}
+				dropdown.toggle().catch((error) => {
+					console.error(
+						"Failed to toggle drop-down terminal:",
+						error,
+					);
+					this.showNotice(
+						"Failed to open drop-down terminal. Check console for details.",
+					);
+				});
+			},
+		});
+
+		this.addCommand({
+			id: "toggle-broadcast-input",
+			name: "Toggle broadcast input",
+			callback: () => {
+				this.toggleBroadcastInput();
+			},
+		});
+
+		this.addCommand({
+			id: "open-session-manager",
+			name: "Open session manager",
+			callback: () => {
+				this.activateSessionsView();
+			},
+		});
+
+		this.addCommand({
+			id: "reattach-session",
+			name: "Reattach session…",
+			checkCallback: (checking: boolean) => {
+				if (this.terminalManager.getDetachedTerminals().length === 0) {
+					return false;
+				}
+				if (!checking) {
+					new SessionPickerModal(
+						this.app,
+						this.terminalManager,
+						(session) => {
+							this.openSessionView(session).catch((error) => {
+								console.error(
+									"Failed to reattach session:",
+									error,
+								);
+							});
+						},
+					).open();
+				}
+				return true;
+			},
+		});
+
+		this.syncProfileCommands();
+
+		// Every keybinding action can also get an Obsidian hotkey
+		for (const action of TERMINAL_KEY_ACTION_IDS) {
+			const { name, commandId } = TERMINAL_KEY_ACTIONS[action];
+			if (!commandId) continue;
+
+			this.addCommand({
+				id: commandId,
+				name,
+				checkCallback: (checking: boolean) => {
+					const view =
+						this.app.workspace.getActiveViewOfType(TerminalView);
+					if (!view?.canRunAction(action)) return false;
+					if (!checking) view.runAction(action);
+					return true;
+				},
+			});
+		}
 	}
 
+	/**
+	 * Register an "Open profile" command per profile and drop commands
+	 * of deleted profiles
+	 */
+	private syncProfileCommands(): void {
+		const profiles = this.settings?.profiles ?? [];
+		const currentIds = new Set(profiles.map((profile) => profile.id));
+
+		for (const id of this.profileCommandIds) {
+			if (!currentIds.has(id)) {
+				this.removeCommand(`open-profile-${id}`);
+				this.profileCommandIds.delete(id);
+			}
+		}
+
+		for (const profile of profiles) {
+			// Re-adding replaces the command, which picks up renames
+			this.addCommand({
+				id: `open-profile-${profile.id}`,
+				name: `Open profile: ${profile.name || "Untitled profile"}`,
+				callback: () => {
+					const current = this.getProfile(profile.id);
+					if (current) {
+						this.openTerminal(undefined, current);
+					}
+				},
+			});
+			this.profileCommandIds.add(profile.id);
+		}
+	}
+
+	/**
+	 * Register a "Run snippet" command per snippet that asks for one and
+	 * drop commands of deleted snippets
+	 */
+	private async syncSnippetCommands(): Promise<void> {
+		const snippets = (await this.getSnippets()).filter(
+			(snippet) => snippet.registerCommand,
+		);
+		const currentIds = new Set(snippets.map((snippet) => snippet.id));
+
+		for (const id of this.snippetCommandIds) {
+			if (!currentIds.has(id)) {
+				this.removeCommand(`run-snippet-${id}`);
+				this.snippetCommandIds.delete(id);
+			}
+		}
+
+		for (const snippet of snippets) {
+			this.addCommand({
+				id: `run-snippet-${snippet.id}`,
+				name: `Run snippet: ${snippet.name || "Untitled snippet"}`,
+				callback: () => {
+					this.getSnippets()
+						.then((current) => {
+							const latest = current.find(
+								(candidate) => candidate.id === snippet.id,
+							);
+							if (latest) this.runSnippet(latest);
+						})
+						.catch((error) => {
+							console.error("Failed to load snippets:", error);
+						});
+				},
+			});
+			this.snippetCommandIds.add(snippet.id);
+		}
+	}
+
+	private debounceSyncSnippetCommands = debounce(() => {
+		void this.syncSnippetCommands();
+	}, 500);
+
 	// Resize 防抖定时器
 	private resizeDebounceTimer: ReturnType<typeof setTimeout> | null = null;
 
@@ -576,6 +1508,15 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 			this.app.workspace.on("layout-change", () => {
 				// 触发所有终端视图的 resize
 				this.debounceResizeAllViews(100);
+				// Docked terminals change title and cwd with the layout
+				this.terminalDock?.requestSave();
+			}),
+		);
+
+		// Save the dock before Obsidian closes, onunload may not run
+		this.registerEvent(
+			this.app.workspace.on("quit", (tasks) => {
+				tasks.add(() => this.saveDockState());
 			}),
 		);
 
@@ -592,6 +1533,66 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 			}),
 		);
 
+		// Keep snippet commands in sync with the snippet folder
+		const onSnippetFileChange = (file: TAbstractFile, oldPath?: string) => {
+			const folder = this.settings?.snippetFolder.trim();
+			if (!folder) return;
+			const prefix = normalizePath(folder) + "/";
+			if (file.path.startsWith(prefix) || oldPath?.startsWith(prefix)) {
+				this.debounceSyncSnippetCommands();
+			}
+		};
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) =>
+				onSnippetFileChange(file),
+			),
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => onSnippetFileChange(file)),
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) =>
+				onSnippetFileChange(file, oldPath),
+			),
+		);
+
+		// Remember the last focused terminal for code block runs
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", (leaf) => {
+				if (leaf?.view instanceof TerminalView) {
+					this.lastTerminalView = leaf.view;
+				}
+			}),
+		);
+
+		// "Open terminal here" in the file explorer and editor context menus
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				menu.addItem((item) => {
+					item.setTitle("Open terminal here")
+						.setIcon("terminal")
+						.setSection("open")
+						.onClick(() => {
+							this.openTerminalHere(file);
+						});
+				});
+			}),
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, _editor, info) => {
+				const file = info.file;
+				if (!file) return;
+				menu.addItem((item) => {
+					item.setTitle("Open terminal here")
+						.setIcon("terminal")
+						.onClick(() => {
+							this.openTerminalHere(file);
+						});
+				});
+			}),
+		);
+
 		// Intercept "New Tab" button clicks to show menu (Desktop only)
 		if (Platform.isDesktop) {
 			this.registerDomEvent(
@@ -636,9 +1637,21 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 				item.setTitle("New Terminal")
 					.setIcon("terminal")
 					.onClick(() => {
-						this.openTerminal(true);
+						this.openTerminal("tab");
 					});
 			});
+
+			for (const profile of this.settings?.profiles ?? []) {
+				menu.addItem((item) => {
+					item.setTitle(
+						`New Terminal: ${profile.name || "Untitled profile"}`,
+					)
+						.setIcon("square-terminal")
+						.onClick(() => {
+							this.openTerminal("tab", profile);
+						});
+				});
+			}
 		}
 
 		menu.showAtMouseEvent(evt);
@@ -668,20 +1681,89 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 		}, delay);
 	}
 
+	/**
+	 * Re-resolve theme colors and apply them to all terminals
+	 * Called when theme settings change; not on every save, since the
+	 * Ghostty renderer is rebuilt to change its theme
+	 */
+	refreshThemes(): void {
+		this.debounceUpdateAllViews();
+	}
+
 	private debounceUpdateAllViews = debounce(() => {
 		this.themeColors = this.resolveThemeColors();
 		// Update all terminal views with new theme
 		for (const view of this.getTerminalViews()) {
-			view.updateTheme(this.themeColors);
+			view.updateTheme(view.getThemeColors());
 		}
 	}, 200);
 
 	/**
-	 * Get or create a terminal leaf
+	 * Create an empty leaf for a new terminal
+	 */
+	private getTerminalLeaf(location: TerminalLocation): WorkspaceLeaf {
+		const { workspace } = this.app;
+
+		switch (location) {
+			case "dock":
+				return (
+					this.getTerminalDock()?.createLeaf() ??
+					workspace.getLeaf(true)
+				);
+			case "split":
+				return workspace.getLeaf("split", "horizontal");
+			case "sidebar":
+				return workspace.getRightLeaf(false) ?? workspace.getLeaf(true);
+			case "tab":
+				return workspace.getLeaf(true);
+		}
+	}
+
+	/**
+	 * Reopen the docked terminals saved before the last restart
 	 */
-	private getOrCreateTerminalLeaf(): WorkspaceLeaf {
-		// Create a new leaf in the right split
-		return this.app.workspace.getLeaf("split", "horizontal");
+	private async restoreTerminalDock(): Promise<void> {
+		const state = this.settings?.dockState;
+		if (!state?.terminals.length) return;
+		await this.getTerminalDock()?.restore(state);
+	}
+
+	/**
+	 * Save the dock's tabs in the plugin data
+	 * Without the settings side effects of saveSettings()
+	 */
+	async saveDockState(): Promise<void> {
+		// Leave the saved tabs alone until the dock is used
+		const state = this.terminalDock?.getState();
+		if (!state || !this.settings) return;
+		this.settings.dockState = state;
+		await this.saveData(this.settings);
+	}
+
+	/**
+	 * The dock, created on first use
+	 * Null when Obsidian lacks the APIs for leaves outside the layout
+	 */
+	private getTerminalDock(): TerminalDock | null {
+		if (!this.terminalDock) {
+			const host = getFloatingLeafHost(this.app.workspace);
+			if (!host) return null;
+			this.terminalDock = new TerminalDock(this, host);
+		}
+		return this.terminalDock;
+	}
+
+	/**
+	 * The drop-down terminal, created on first use
+	 * Null when Obsidian lacks the APIs for leaves outside the layout
+	 */
+	private getDropdownTerminal(): DropdownTerminal | null {
+		if (!this.dropdownTerminal) {
+			const host = getFloatingLeafHost(this.app.workspace);
+			if (!host) return null;
+			this.dropdownTerminal = new DropdownTerminal(this, host);
+		}
+		return this.dropdownTerminal;
 	}
 
 	/**
@@ -703,9 +1785,21 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 	 */
 	getTerminalViews(): TerminalView[] {
 		const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_TERMINAL);
-		return leaves
+		const views = leaves
 			.map((leaf) => leaf.view as TerminalView)
 			.filter((view) => view instanceof TerminalView);
+
+		// Docked and drop-down terminals are outside the layout, but their
+		// sessions still know them
+		for (const session of this.terminalManager?.terminals.values() ?? []) {
+			if (
+				session.view instanceof TerminalView &&
+				!views.includes(session.view)
+			) {
+				views.push(session.view);
+			}
+		}
+		return views;
 	}
 
 	/**
@@ -805,7 +1899,24 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 	 */
 	async loadSettings(): Promise<void> {
 		const data = await this.loadData();
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		const settings: TerminalPluginSettings = Object.assign(
+			{},
+			DEFAULT_SETTINGS,
+			data,
+		);
+		// Never share the default arrays with the live settings
+		settings.profiles = [...(settings.profiles ?? [])];
+		settings.snippets = [...(settings.snippets ?? [])];
+		settings.obsidianKeys = [...(settings.obsidianKeys ?? [])];
+		settings.customThemes = [...(settings.customThemes ?? [])];
+		settings.systemColors = { ...settings.systemColors };
+		// Actions added in later versions get their default key
+		settings.keybindings = {
+			...DEFAULT_SETTINGS.keybindings,
+			...settings.keybindings,
+		};
+		this.settings = settings;
+		setCustomThemes(settings.customThemes);
 
 		// Migration: useGhostty -> renderer
 		if (data && "useGhostty" in data && this.settings) {
@@ -823,6 +1934,15 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 	 */
 	async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
+		setCustomThemes(this.settings?.customThemes ?? []);
+
+		if (this._nativeModulesReady) {
+			this.syncProfileCommands();
+			void this.syncSnippetCommands();
+		}
+
+		this.dropdownTerminal?.applyHeight();
+		this.terminalDock?.applyHeight();
 
 		// 保存设置后通知所有终端视图更新外观
 		this.getTerminalViews().forEach((view) => {
@@ -830,11 +1950,25 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 		});
 	}
 
+	/**
+	 * Colors of a preset theme, or null if the preset does not exist
+	 */
+	private getPresetColors(presetId: string): Record<string, string> | null {
+		const theme = getThemeById(presetId);
+		if (!theme) return null;
+
+		// Return a copy of the theme (excluding metadata)
+		const { name, type, ...colors } = theme;
+		delete (colors as Partial<CustomTerminalTheme>).id;
+		return { ...colors };
+	}
+
 	/**
 	 * Resolve terminal theme colors
 	 *
 	 * Supports two modes:
-	 * - "system": Resolves colors from Obsidian CSS variables
+	 * - "system": Resolves colors from Obsidian CSS variables, or the
+	 *   variables and colors set in the color mapping
 	 * - "preset": Uses predefined terminal color schemes
 	 *
 	 * WebGL renderer requires HEX colors, so all colors are converted to HEX format.
@@ -852,80 +1986,18 @@ export default class TerminalPlugin extends Plugin implements ITerminalPlugin {
 				: (this.settings?.lightThemePreset ??
 					DEFAULT_SETTINGS.lightThemePreset);
 
-			const theme = PRESET_THEMES[presetId];
-			if (theme) {
-				// Return a copy of the theme (excluding metadata)
-				const { name, type, ...colors } = theme;
-				return { ...colors };
+			const colors = this.getPresetColors(presetId);
+			if (colors) {
+				return colors;
 			}
 			// Fall through to system mode if preset not found
 		}
 
-		// System mode: resolve from Obsidian CSS variables
-		const styles = getComputedStyle(document.body);
-
-		/**
-		 * Convert any CSS color to HEX format
-		 * WebGL renderer requires HEX colors for proper rendering
-		 */
-		const toHex = (color: string): string => {
-			// If already HEX, return as-is
-			if (color.startsWith("#")) {
-				return color;
-			}
-
-			// Use canvas to convert any CSS color to RGB
-			const canvas = document.createElement("canvas");
-			canvas.width = canvas.height = 1;
-			const ctx = canvas.getContext("2d");
-			if (!ctx) return color;
-
-			ctx.fillStyle = color;
-			ctx.fillRect(0, 0, 1, 1);
-			const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
-
-			// If has transparency, return rgba format (for selectionBackground)
-			if (a < 255) {
-				return `rgba(${r}, ${g}, ${b}, ${(a / 255).toFixed(2)})`;
-			}
-
-			// Convert to HEX
-			return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
-		};
-
-		const resolve = (cssVar: string, fallback: string): string => {
-			const value = styles.getPropertyValue(cssVar).trim();
-			return toHex(value || fallback);
-		};
-
-		return {
-			// Core colors
-			background: resolve("--background-secondary", "#1e1e1e"),
-			foreground: resolve("--text-normal", "#d4d4d4"),
-			cursor: resolve("--text-accent", "#569cd6"),
-			cursorAccent: resolve("--background-secondary", "#1e1e1e"),
-			selectionBackground: resolve(
-				"--text-selection",
-				"rgba(255, 255, 255, 0.3)",
-			),
-			// ANSI colors
-			black: resolve("--color-base-00", "#1e1e1e"),
-			red: resolve("--color-red", "#e93147"),
-			green: resolve("--color-green", "#08b94e"),
-			yellow: resolve("--color-yellow", "#e0ac00"),
-			blue: resolve("--color-blue", "#086ddd"),
-			magenta: resolve("--color-purple", "#7852ee"),
-			cyan: resolve("--color-cyan", "#00bfbc"),
-			white: resolve("--color-base-70", "#d4d4d4"),
-			// Bright ANSI colors
-			brightBlack: resolve("--color-base-50", "#808080"),
-			brightRed: resolve("--color-red", "#e93147"),
-			brightGreen: resolve("--color-green", "#08b94e"),
-			brightYellow: resolve("--color-yellow", "#e0ac00"),
-			brightBlue: resolve("--color-blue", "#086ddd"),
-			brightMagenta: resolve("--color-purple", "#7852ee"),
-			brightCyan: resolve("--color-cyan", "#00bfbc"),
-			brightWhite: resolve("--color-base-100", "#ffffff"),
-		};
+		// System mode: resolve from Obsidian CSS variables (or literals)
+		// the user mapped each color to
+		return resolveSystemColors(
+			this.settings?.systemColors ?? {},
+			getComputedStyle(document.body),
+		);
 	}
 }
@@ -0,0 +1,65 @@
+import { App, Modal, Setting } from "obsidian";
+
+export interface BroadcastCandidate {
+	sessionId: string;
+	title: string;
+	selected: boolean;
+}
+
+/**
+ * Pick the terminals whose input is mirrored to each other
+ */
+export class BroadcastModal extends Modal {
+	private candidates: BroadcastCandidate[];
+	private onSubmit: (sessionIds: string[]) => void;
+
+	constructor(
+		app: App,
+		candidates: BroadcastCandidate[],
+		onSubmit: (sessionIds: string[]) => void,
+	) {
+		super(app);
+		this.candidates = candidates.map((candidate) => ({ ...candidate }));
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		this.setTitle("Broadcast input");
+		this.contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Whatever you type in one of the selected terminals is sent to all of them.",
+		});
+
+		for (const candidate of this.candidates) {
+			new Setting(this.contentEl)
+				.setName(candidate.title)
+				.addToggle((toggle) =>
+					toggle.setValue(candidate.selected).onChange((value) => {
+						candidate.selected = value;
+					}),
+				);
+		}
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Broadcast")
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onSubmit(
+							this.candidates
+								.filter((candidate) => candidate.selected)
+								.map((candidate) => candidate.sessionId),
+						);
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
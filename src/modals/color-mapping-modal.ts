@@ -0,0 +1,147 @@
+import { App, Modal, Setting } from "obsidian";
+import {
+	THEME_COLOR_KEYS,
+	THEME_COLOR_LABELS,
+	type ThemeColorKey,
+} from "@/core/themes";
+import {
+	DEFAULT_SYSTEM_COLORS,
+	DERIVED_BRIGHT_COLORS,
+	resolveSystemColors,
+	type SystemColorMapping,
+} from "@/core/theme-colors";
+
+/** Obsidian variables offered as suggestions */
+const SUGGESTED_VARIABLES = [
+	"--background-primary",
+	"--background-primary-alt",
+	"--background-secondary",
+	"--background-secondary-alt",
+	"--text-normal",
+	"--text-muted",
+	"--text-faint",
+	"--text-accent",
+	"--text-on-accent",
+	"--text-selection",
+	"--interactive-accent",
+	"--color-accent",
+	"--color-red",
+	"--color-orange",
+	"--color-yellow",
+	"--color-green",
+	"--color-cyan",
+	"--color-blue",
+	"--color-purple",
+	"--color-pink",
+	...[0, 5, 10, 20, 25, 30, 35, 40, 50, 60, 70, 100].map(
+		(n) => `--color-base-${n.toString().padStart(2, "0")}`,
+	),
+];
+
+/**
+ * Bind each color of the "Follow Obsidian" theme to a CSS variable or a
+ * literal color, showing the color each slot resolves to
+ */
+export class ColorMappingModal extends Modal {
+	private mapping: SystemColorMapping;
+	private onSave: (mapping: SystemColorMapping) => void;
+	private swatches = new Map<ThemeColorKey, HTMLElement>();
+
+	constructor(
+		app: App,
+		mapping: SystemColorMapping,
+		onSave: (mapping: SystemColorMapping) => void,
+	) {
+		super(app);
+		this.mapping = { ...mapping };
+		this.onSave = onSave;
+	}
+
+	onOpen(): void {
+		this.setTitle("Color mapping");
+		this.modalEl.addClass("terminal-color-mapping");
+		const { contentEl } = this;
+
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Enter a CSS variable (--color-red) or a color (#ff5555, rgb(…)) for each slot. Leave a slot empty for its default; bright colors default to a lighter or darker shade of the normal color.",
+		});
+
+		const listId = "terminal-color-variables";
+		const datalist = contentEl.createEl("datalist", {
+			attr: { id: listId },
+		});
+		for (const variable of SUGGESTED_VARIABLES) {
+			datalist.createEl("option", { attr: { value: variable } });
+		}
+
+		const listEl = contentEl.createDiv({ cls: "terminal-theme-colors" });
+		for (const key of THEME_COLOR_KEYS) {
+			const derivedFrom = DERIVED_BRIGHT_COLORS[key];
+			const placeholder = derivedFrom
+				? `Derived from ${THEME_COLOR_LABELS[derivedFrom].toLowerCase()}`
+				: (DEFAULT_SYSTEM_COLORS[key]?.source ?? "");
+
+			const setting = new Setting(listEl)
+				.setName(THEME_COLOR_LABELS[key])
+				.addText((text) => {
+					text.inputEl.setAttr("list", listId);
+					text.setPlaceholder(placeholder)
+						.setValue(this.mapping[key] ?? "")
+						.onChange((value) => {
+							if (value.trim()) {
+								this.mapping[key] = value.trim();
+							} else {
+								delete this.mapping[key];
+							}
+							this.updateSwatches();
+						});
+				});
+			this.swatches.set(
+				key,
+				setting.controlEl.createDiv({
+					cls: "terminal-color-swatch",
+				}),
+			);
+		}
+		this.updateSwatches();
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Reset all").onClick(() => {
+					this.mapping = {};
+					this.contentEl.empty();
+					this.swatches.clear();
+					this.onOpen();
+				}),
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save")
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onSave(this.mapping);
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		this.swatches.clear();
+	}
+
+	private updateSwatches(): void {
+		const colors = resolveSystemColors(
+			this.mapping,
+			getComputedStyle(activeDocument.body),
+		);
+		for (const [key, swatch] of this.swatches) {
+			swatch.setCssStyles({ backgroundColor: colors[key] });
+			swatch.setAttr("aria-label", colors[key]);
+		}
+	}
+}
@@ -0,0 +1,60 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Yes/no confirmation with an optional preformatted preview
+ * (e.g. the commands about to be sent to a terminal)
+ */
+export class ConfirmModal extends Modal {
+	private confirmTitle: string;
+	private message: string;
+	private preview: string;
+	private confirmText: string;
+	private onConfirm: () => void;
+
+	constructor(
+		app: App,
+		options: {
+			title: string;
+			message: string;
+			preview?: string;
+			confirmText?: string;
+			onConfirm: () => void;
+		},
+	) {
+		super(app);
+		this.confirmTitle = options.title;
+		this.message = options.message;
+		this.preview = options.preview ?? "";
+		this.confirmText = options.confirmText ?? "Confirm";
+		this.onConfirm = options.onConfirm;
+	}
+
+	onOpen(): void {
+		this.setTitle(this.confirmTitle);
+
+		this.contentEl.createEl("p", { text: this.message });
+		if (this.preview) {
+			this.contentEl
+				.createEl("pre", { cls: "terminal-confirm-preview" })
+				.createEl("code", { text: this.preview });
+		}
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(this.confirmText)
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onConfirm();
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,92 @@
+import { App, Modal, Setting } from "obsidian";
+import type { ScrollbackExportFormat, ScrollbackExportRange } from "@/types";
+
+const FORMAT_OPTIONS: Record<ScrollbackExportFormat, string> = {
+	markdown: "Markdown (plain text code block)",
+	html: "HTML (keeps colors)",
+	ansi: "ANSI (raw escape sequences)",
+};
+
+const RANGE_OPTIONS: Record<ScrollbackExportRange, string> = {
+	all: "Entire scrollback",
+	visible: "Visible screen",
+	selection: "Selection",
+};
+
+/**
+ * Pick the format and buffer range for a scrollback export
+ */
+export class ExportScrollbackModal extends Modal {
+	private format: ScrollbackExportFormat = "markdown";
+	private range: ScrollbackExportRange;
+	private hasSelection: boolean;
+	private onSubmit: (
+		format: ScrollbackExportFormat,
+		range: ScrollbackExportRange,
+	) => void;
+
+	constructor(
+		app: App,
+		options: {
+			hasSelection: boolean;
+			onSubmit: (
+				format: ScrollbackExportFormat,
+				range: ScrollbackExportRange,
+			) => void;
+		},
+	) {
+		super(app);
+		this.hasSelection = options.hasSelection;
+		this.range = options.hasSelection ? "selection" : "all";
+		this.onSubmit = options.onSubmit;
+	}
+
+	onOpen(): void {
+		this.setTitle("Export scrollback");
+
+		new Setting(this.contentEl).setName("Format").addDropdown((dropdown) =>
+			dropdown
+				.addOptions(FORMAT_OPTIONS)
+				.setValue(this.format)
+				.onChange((value) => {
+					this.format = value as ScrollbackExportFormat;
+				}),
+		);
+
+		new Setting(this.contentEl)
+			.setName("Range")
+			.setDesc(
+				this.hasSelection
+					? ""
+					: "Select text first to export a selection",
+			)
+			.addDropdown((dropdown) => {
+				const options: Record<string, string> = { ...RANGE_OPTIONS };
+				if (!this.hasSelection) delete options.selection;
+				dropdown
+					.addOptions(options)
+					.setValue(this.range)
+					.onChange((value) => {
+						this.range = value as ScrollbackExportRange;
+					});
+			});
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Export")
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onSubmit(this.format, this.range);
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,10 @@
+// Modals export
+export * from "./session-picker-modal";
+export * from "./prompt-modal";
+export * from "./confirm-modal";
+export * from "./export-scrollback-modal";
+export * from "./snippet-picker-modal";
+export * from "./snippet-variables-modal";
+export * from "./broadcast-modal";
+export * from "./theme-editor-modal";
+export * from "./color-mapping-modal";
@@ -0,0 +1,71 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Single-line text prompt (e.g. renaming a session)
+ */
+export class PromptModal extends Modal {
+	private value: string;
+	private onSubmit: (value: string) => void;
+	private promptTitle: string;
+	private placeholder: string;
+	private submitText: string;
+
+	constructor(
+		app: App,
+		options: {
+			title: string;
+			value?: string;
+			placeholder?: string;
+			submitText?: string;
+			onSubmit: (value: string) => void;
+		},
+	) {
+		super(app);
+		this.promptTitle = options.title;
+		this.value = options.value ?? "";
+		this.placeholder = options.placeholder ?? "";
+		this.submitText = options.submitText ?? "Save";
+		this.onSubmit = options.onSubmit;
+	}
+
+	onOpen(): void {
+		this.setTitle(this.promptTitle);
+
+		new Setting(this.contentEl).addText((text) => {
+			text.setPlaceholder(this.placeholder)
+				.setValue(this.value)
+				.onChange((value) => {
+					this.value = value;
+				});
+			text.inputEl.addClass("terminal-prompt-input");
+			text.inputEl.addEventListener("keydown", (evt: KeyboardEvent) => {
+				if (evt.key === "Enter" && !evt.isComposing) {
+					evt.preventDefault();
+					this.submit();
+				}
+			});
+			// Select existing value so it can be replaced by typing
+			setTimeout(() => text.inputEl.select(), 0);
+		});
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(this.submitText)
+					.setCta()
+					.onClick(() => this.submit()),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		this.close();
+		this.onSubmit(this.value);
+	}
+}
@@ -0,0 +1,95 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from "obsidian";
+import type { TerminalSession } from "@/types";
+import type { TerminalManager } from "@/core/terminal-manager";
+
+/**
+ * Fuzzy picker for detached terminal sessions
+ *
+ * Lists live sessions without a view, showing shell, cwd, uptime and the
+ * last output line so long-running jobs are easy to tell apart.
+ */
+export class SessionPickerModal extends FuzzySuggestModal<TerminalSession> {
+	private terminalManager: TerminalManager;
+	private onChoose: (session: TerminalSession) => void;
+
+	constructor(
+		app: App,
+		terminalManager: TerminalManager,
+		onChoose: (session: TerminalSession) => void,
+	) {
+		super(app);
+		this.terminalManager = terminalManager;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Reattach a detached terminal session...");
+		this.emptyStateText = "No detached sessions";
+	}
+
+	getItems(): TerminalSession[] {
+		return this.terminalManager.getDetachedTerminals();
+	}
+
+	getItemText(session: TerminalSession): string {
+		return [
+			getShellName(session.shell),
+			session.cwd ?? session.initialCwd ?? "",
+			this.terminalManager.getLastOutputLine(session.id),
+		].join(" ");
+	}
+
+	renderSuggestion(match: FuzzyMatch<TerminalSession>, el: HTMLElement): void {
+		const session = match.item;
+		const cwd = session.cwd ?? session.initialCwd ?? "";
+		const uptime = session.createdAt
+			? formatUptime(Date.now() - session.createdAt)
+			: "";
+
+		el.addClass("mod-complex");
+		const content = el.createDiv({ cls: "suggestion-content" });
+		content.createDiv({
+			cls: "suggestion-title",
+			text: `${getShellName(session.shell)} — ${cwd}`,
+		});
+
+		const lastLine = this.terminalManager.getLastOutputLine(session.id);
+		if (lastLine) {
+			content.createDiv({
+				cls: "suggestion-note terminal-session-last-line",
+				text: lastLine,
+			});
+		}
+
+		if (uptime) {
+			el.createDiv({ cls: "suggestion-aux" }).createSpan({
+				cls: "suggestion-flair",
+				text: `up ${uptime}`,
+			});
+		}
+	}
+
+	onChooseItem(session: TerminalSession): void {
+		this.onChoose(session);
+	}
+}
+
+/**
+ * Get a short shell name from its path (e.g. "/bin/zsh" -> "zsh")
+ */
+function getShellName(shellPath?: string): string {
+	if (!shellPath) return "shell";
+	const fileName = shellPath.split(/[\\/]/).pop() || shellPath;
+	return fileName.replace(/\.exe$/i, "");
+}
+
+/**
+ * Format a duration as a compact uptime (e.g. "2h 5m")
+ */
+function formatUptime(ms: number): string {
+	const minutes = Math.floor(ms / 60000);
+	if (minutes < 1) return `${Math.floor(ms / 1000)}s`;
+	if (minutes < 60) return `${minutes}m`;
+
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours}h ${minutes % 60}m`;
+
+	return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
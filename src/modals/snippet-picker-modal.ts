@@ -0,0 +1,57 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from "obsidian";
+import type { TerminalSnippet } from "@/settings";
+
+/**
+ * Fuzzy picker for saved command snippets
+ * Matches on the name and the command text
+ */
+export class SnippetPickerModal extends FuzzySuggestModal<TerminalSnippet> {
+	private snippets: TerminalSnippet[];
+	private onChoose: (snippet: TerminalSnippet) => void;
+
+	constructor(
+		app: App,
+		snippets: TerminalSnippet[],
+		onChoose: (snippet: TerminalSnippet) => void,
+	) {
+		super(app);
+		this.snippets = snippets;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Run a snippet...");
+		this.emptyStateText = "No snippets. Add them in the Terminal settings.";
+	}
+
+	getItems(): TerminalSnippet[] {
+		return this.snippets;
+	}
+
+	getItemText(snippet: TerminalSnippet): string {
+		return `${snippet.name} ${snippet.command}`;
+	}
+
+	renderSuggestion(
+		match: FuzzyMatch<TerminalSnippet>,
+		el: HTMLElement,
+	): void {
+		const snippet = match.item;
+
+		el.addClass("mod-complex");
+		const content = el.createDiv({ cls: "suggestion-content" });
+		content.createDiv({ cls: "suggestion-title", text: snippet.name });
+		content.createDiv({
+			cls: "suggestion-note terminal-snippet-command",
+			text: snippet.command,
+		});
+
+		if (snippet.sourcePath) {
+			el.createDiv({ cls: "suggestion-aux" }).createSpan({
+				cls: "suggestion-flair",
+				text: "note",
+			});
+		}
+	}
+
+	onChooseItem(snippet: TerminalSnippet): void {
+		this.onChoose(snippet);
+	}
+}
@@ -0,0 +1,79 @@
+import { App, Modal, Setting } from "obsidian";
+import type { SnippetPlaceholder } from "@/core/snippets";
+
+/**
+ * Ask for the values of a snippet's placeholders
+ * Enter in the last field runs the snippet
+ */
+export class SnippetVariablesModal extends Modal {
+	private snippetName: string;
+	private placeholders: SnippetPlaceholder[];
+	private values: Record<string, string> = {};
+	private onSubmit: (values: Record<string, string>) => void;
+
+	constructor(
+		app: App,
+		options: {
+			snippetName: string;
+			placeholders: SnippetPlaceholder[];
+			onSubmit: (values: Record<string, string>) => void;
+		},
+	) {
+		super(app);
+		this.snippetName = options.snippetName;
+		this.placeholders = options.placeholders;
+		this.onSubmit = options.onSubmit;
+		for (const { name, defaultValue } of this.placeholders) {
+			this.values[name] = defaultValue;
+		}
+	}
+
+	onOpen(): void {
+		this.setTitle(this.snippetName);
+
+		const inputs: HTMLInputElement[] = [];
+		for (const { name, defaultValue } of this.placeholders) {
+			new Setting(this.contentEl).setName(name).addText((text) => {
+				text.setValue(defaultValue).onChange((value) => {
+					this.values[name] = value;
+				});
+				inputs.push(text.inputEl);
+			});
+		}
+
+		// Enter moves to the next field, and runs from the last one
+		inputs.forEach((input, index) => {
+			input.addEventListener("keydown", (evt: KeyboardEvent) => {
+				if (evt.key !== "Enter" || evt.isComposing) return;
+				evt.preventDefault();
+				const next = inputs[index + 1];
+				if (next) {
+					next.focus();
+				} else {
+					this.submit();
+				}
+			});
+		});
+		setTimeout(() => inputs[0]?.select(), 0);
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Run")
+					.setCta()
+					.onClick(() => this.submit()),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		this.close();
+		this.onSubmit({ ...this.values });
+	}
+}
@@ -0,0 +1,156 @@
+import { App, Modal, Setting } from "obsidian";
+import {
+	ANSI_COLOR_KEYS,
+	THEME_COLOR_KEYS,
+	THEME_COLOR_LABELS,
+	type CustomTerminalTheme,
+	type ThemeColorKey,
+} from "@/core/themes";
+import { toHexColor } from "@/core/theme-formats";
+
+/**
+ * Edit the name, type and colors of a custom theme, with a preview of
+ * terminal output in those colors
+ */
+export class ThemeEditorModal extends Modal {
+	private theme: CustomTerminalTheme;
+	private onSave: (theme: CustomTerminalTheme) => void;
+	private previewEl: HTMLElement | null = null;
+
+	constructor(
+		app: App,
+		theme: CustomTerminalTheme,
+		onSave: (theme: CustomTerminalTheme) => void,
+	) {
+		super(app);
+		// Edit a copy so Cancel leaves the saved theme alone
+		this.theme = { ...theme };
+		this.onSave = onSave;
+	}
+
+	onOpen(): void {
+		this.setTitle("Edit theme");
+		this.modalEl.addClass("terminal-theme-editor");
+		const { contentEl } = this;
+
+		new Setting(contentEl).setName("Name").addText((text) =>
+			text.setValue(this.theme.name).onChange((value) => {
+				this.theme.name = value;
+			}),
+		);
+
+		new Setting(contentEl)
+			.setName("Type")
+			.setDesc("Which theme list (dark or light mode) it appears in")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("dark", "Dark")
+					.addOption("light", "Light")
+					.setValue(this.theme.type)
+					.onChange((value) => {
+						this.theme.type = value as "dark" | "light";
+					}),
+			);
+
+		this.previewEl = contentEl.createDiv({
+			cls: "terminal-theme-preview",
+		});
+		this.renderPreview();
+
+		const colorsEl = contentEl.createDiv({
+			cls: "terminal-theme-colors",
+		});
+		for (const key of THEME_COLOR_KEYS) {
+			new Setting(colorsEl)
+				.setName(THEME_COLOR_LABELS[key])
+				.addColorPicker((picker) =>
+					picker
+						// The picker only takes hex; rgba() is flattened
+						.setValue(this.getHexColor(key))
+						.onChange((value) => {
+							this.theme[key] = value;
+							this.renderPreview();
+						}),
+				);
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save")
+					.setCta()
+					.onClick(() => {
+						this.theme.name = this.theme.name.trim() || "Untitled";
+						this.close();
+						this.onSave(this.theme);
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		this.previewEl = null;
+	}
+
+	private getHexColor(key: ThemeColorKey): string {
+		const color =
+			this.theme[key] ??
+			(key === "cursorAccent" ? this.theme.background : "#000000");
+		return toHexColor(color, this.theme.background);
+	}
+
+	/**
+	 * Sample prompt, command output, selection and the 16 ANSI colors
+	 */
+	private renderPreview(): void {
+		const el = this.previewEl;
+		if (!el) return;
+		el.empty();
+
+		const color = (key: ThemeColorKey) => this.getHexColor(key);
+		el.setCssStyles({
+			backgroundColor: color("background"),
+			color: color("foreground"),
+		});
+
+		const promptEl = el.createDiv();
+		promptEl
+			.createSpan({ text: "~/vault" })
+			.setCssStyles({ color: color("blue") });
+		promptEl.createSpan({ text: " on " });
+		promptEl
+			.createSpan({ text: "main" })
+			.setCssStyles({ color: color("magenta") });
+		promptEl.createSpan({ text: " $ git status " });
+		promptEl.createSpan({ text: " " }).setCssStyles({
+			backgroundColor: color("cursor"),
+			color: color("cursorAccent"),
+		});
+
+		const outputEl = el.createDiv();
+		outputEl
+			.createSpan({ text: "modified:" })
+			.setCssStyles({ color: color("red") });
+		outputEl.createSpan({ text: " " });
+		outputEl.createSpan({ text: "notes/selected text.md" }).setCssStyles({
+			backgroundColor: color("selectionBackground"),
+		});
+
+		for (const row of [0, 8]) {
+			const rowEl = el.createDiv({
+				cls: "terminal-theme-preview-palette",
+			});
+			for (const key of ANSI_COLOR_KEYS.slice(row, row + 8)) {
+				rowEl
+					.createSpan({
+						text: "■",
+						attr: { "aria-label": THEME_COLOR_LABELS[key] },
+					})
+					.setCssStyles({ color: color(key) });
+			}
+		}
+	}
+}
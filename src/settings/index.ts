@@ -7,5 +7,9 @@ export {
 	DEFAULT_SETTINGS,
 	type TerminalPluginSettings,
 	type TerminalRenderer,
+	type TerminalLocation,
+	type TerminalDockState,
+	type TerminalProfile,
+	type TerminalSnippet,
 	type ThemeMode,
 } from "./settings-tab";
@@ -14,6 +14,7 @@ import {
 	Notice,
 	ButtonComponent,
 	Platform,
+	Menu,
 	// @ts-expect-error - SettingGroup is not yet in the public API types
 	SettingGroup,
 } from "obsidian";
@@ -30,26 +31,126 @@ import {
 	SUPPORTED_ABIS,
 } from "@/core/embedded-modules";
 import { GHOSTTY_OPTIONS } from "@/constants";
-import { getDarkThemes, getLightThemes } from "@/core/themes";
+import {
+	getDarkThemes,
+	getLightThemes,
+	getThemeById,
+	type CustomTerminalTheme,
+} from "@/core/themes";
+import {
+	THEME_FORMATS,
+	detectThemeFormat,
+	importTheme,
+	type ThemeFormat,
+} from "@/core/theme-formats";
+import type { SystemColorMapping } from "@/core/theme-colors";
+import { ColorMappingModal, ThemeEditorModal } from "@/modals";
+import {
+	TERMINAL_KEY_ACTIONS,
+	TERMINAL_KEY_ACTION_IDS,
+	formatKeybinding,
+	getDefaultKeymap,
+	keybindingFromEvent,
+	parseKeybinding,
+	type TerminalKeyAction,
+	type TerminalKeymap,
+} from "@/core/keybindings";
+import type { PasteLineEnding } from "@/core/paste";
+import {
+	DEFAULT_FONT_FALLBACK,
+	FONT_WEIGHTS,
+	getInstalledFonts,
+	isGenericFont,
+	parseFontList,
+} from "@/core/fonts";
+import type { PTYProfile, TerminalViewState } from "@/types";
 
 /**
  * Terminal renderer type
  */
 export type TerminalRenderer = "xterm" | "xterm-webgl" | "ghostty";
 
+/**
+ * Where new terminals open
+ */
+export type TerminalLocation = "dock" | "split" | "tab" | "sidebar";
+
 /**
  * Theme mode - system follows Obsidian CSS, preset uses predefined themes
  */
 export type ThemeMode = "system" | "preset";
 
+/**
+ * Named launch profile (e.g. a Python REPL, WSL or an ssh jump host)
+ * Empty shell/cwd/renderer/theme fields fall back to the global settings
+ */
+export interface TerminalProfile extends PTYProfile {
+	id: string;
+	name: string;
+	shell: string;
+	args: string[];
+	env: Record<string, string>;
+	cwd: string;
+	/** Renderer override, empty to use the global renderer */
+	renderer: TerminalRenderer | "";
+	/** Preset theme ID, empty to follow the global theme settings */
+	themePreset: string;
+	/** Vault path of a background image, empty to use the global one */
+	backgroundImage: string;
+	/** Background opacity in percent, unset to use the global one */
+	backgroundOpacity?: number;
+	/** Background blur in pixels, unset to use the global one */
+	backgroundBlur?: number;
+}
+
+/**
+ * Saved command with optional `{{placeholders}}`
+ * Snippets loaded from notes carry the note path in sourcePath
+ */
+export interface TerminalSnippet {
+	id: string;
+	name: string;
+	command: string;
+	/** Profile to run in (ID, or name for note snippets), empty for any terminal */
+	profileId: string;
+	/** Starting directory, absolute or relative to the vault */
+	cwd: string;
+	/** Register a "Run snippet" command that can be bound to a hotkey */
+	registerCommand: boolean;
+	sourcePath?: string;
+}
+
+/**
+ * Terminals of the bottom dock, saved so they come back after a restart
+ */
+export interface TerminalDockState {
+	visible: boolean;
+	/** Index into terminals of the selected tab */
+	activeTab: number;
+	/** View state of each docked terminal, one tab each */
+	terminals: TerminalViewState[];
+}
+
 /**
  * Plugin settings interface
  */
 export interface TerminalPluginSettings {
 	defaultShell: string;
 	shellArgs: string[];
+	shellIntegration: boolean;
 	fontSize: number;
 	fontFamily: string;
+	/** Fonts tried for glyphs the terminal font lacks (CSS font list) */
+	fontFallback: string;
+	/** Draw ligatures of coding fonts (xterm renderers) */
+	fontLigatures: boolean;
+	/** CSS font weight, empty for the renderer default */
+	fontWeight: string;
+	fontWeightBold: string;
+	/** Extra space between characters in pixels */
+	letterSpacing: number;
+	/** Line height as a multiple of the font's height */
+	lineHeight: number;
 	cursorBlink: boolean;
 	scrollback: number;
 	githubRepo: string;
@@ -57,6 +158,43 @@ export interface TerminalPluginSettings {
 	themeMode: ThemeMode;
 	darkThemePreset: string;
 	lightThemePreset: string;
+	/** Overrides of the CSS variables "Follow Obsidian" reads colors from */
+	systemColors: SystemColorMapping;
+	/** Contrast ratio text colors are lifted to, 1 to turn off */
+	minimumContrastRatio: number;
+	/** Vault path of an image shown behind the terminal */
+	backgroundImage: string;
+	/** Opacity of the theme background in percent */
+	backgroundOpacity: number;
+	/** Blur of what is behind the terminal in pixels */
+	backgroundBlur: number;
+	/** User-made and imported themes, listed with the presets */
+	customThemes: CustomTerminalTheme[];
+	persistSessions: boolean;
+	profiles: TerminalProfile[];
+	confirmCodeBlockRun: boolean;
+	/** Seconds before a background command is stopped, 0 for no limit */
+	backgroundCommandTimeout: number;
+	snippets: TerminalSnippet[];
+	/** Vault folder with one note per snippet, empty to disable */
+	snippetFolder: string;
+	/** Height of the drop-down terminal, percent of the window */
+	dropdownHeight: number;
+	terminalLocation: TerminalLocation;
+	/** Height of the bottom terminal dock in pixels */
+	dockHeight: number;
+	/** Docked terminals at the last save, null before the dock is used */
+	dockState: TerminalDockState | null;
+	keybindings: TerminalKeymap;
+	/** Keys that skip the shell and reach Obsidian hotkeys ("Mod+P") */
+	obsidianKeys: string[];
+	copyOnSelect: boolean;
+	pasteTrimTrailingNewlines: boolean;
+	pasteLineEnding: PasteLineEnding;
+	/** Confirm pastes the shell would run line by line */
+	confirmMultilinePaste: boolean;
+	/** Confirm pastes containing sudo or rm -rf */
+	confirmDangerousPaste: boolean;
 }
 
 /**
@@ -65,8 +203,15 @@ export interface TerminalPluginSettings {
 export const DEFAULT_SETTINGS: TerminalPluginSettings = {
 	defaultShell: "",
 	shellArgs: [],
+	shellIntegration: true,
 	fontSize: GHOSTTY_OPTIONS.fontSize,
 	fontFamily: GHOSTTY_OPTIONS.fontFamily,
+	fontFallback: DEFAULT_FONT_FALLBACK,
+	fontLigatures: false,
+	fontWeight: "",
+	fontWeightBold: "bold",
+	letterSpacing: 0,
+	lineHeight: 1,
 	cursorBlink: true,
 	scrollback: 1000,
 	githubRepo: "quorafind/obsidian-terminal",
@@ -74,6 +219,29 @@ export const DEFAULT_SETTINGS: TerminalPluginSettings = {
 	themeMode: "system",
 	darkThemePreset: "dracula",
 	lightThemePreset: "github-light",
+	systemColors: {},
+	minimumContrastRatio: 1,
+	backgroundImage: "",
+	backgroundOpacity: 100,
+	backgroundBlur: 0,
+	customThemes: [],
+	persistSessions: true,
+	profiles: [],
+	confirmCodeBlockRun: true,
+	backgroundCommandTimeout: 300,
+	snippets: [],
+	snippetFolder: "",
+	dropdownHeight: 40,
+	terminalLocation: "dock",
+	dockHeight: 300,
+	dockState: null,
+	keybindings: getDefaultKeymap(),
+	obsidianKeys: [],
+	copyOnSelect: false,
+	pasteTrimTrailingNewlines: false,
+	pasteLineEnding: "enter",
+	confirmMultilinePaste: true,
+	confirmDangerousPaste: true,
 };
 
 /**
@@ -102,9 +270,39 @@ export class TerminalSettingsTab extends PluginSettingTab {
 		// Appearance Section
 		this.displayAppearanceSection(containerEl);
 
+		// Custom Themes Section
+		this.displayCustomThemesSection(containerEl);
+
 		// Shell Settings Section
 		this.displayShellSection(containerEl);
 
+		// Profiles Section
+		this.displayProfilesSection(containerEl);
+
+		// Snippets Section
+		this.displaySnippetsSection(containerEl);
+
+		// Layout Section
+		this.displayLayoutSection(containerEl);
+
+		// Keybindings Section
+		this.displayKeybindingsSection(containerEl);
+
+		// Copy and Paste Section
+		this.displayClipboardSection(containerEl);
+
+		// Session Settings Section
+		this.displaySessionSection(containerEl);
+
+		// Drop-down Terminal Section
+		this.displayDropdownSection(containerEl);
+
+		// Code Block Section
+		this.displayCodeBlockSection(containerEl);
+
+		// Background Commands Section
+		this.displayBackgroundCommandSection(containerEl);
+
 		// Renderer Section
 		this.displayRendererSection(containerEl);
 	}
@@ -255,6 +453,7 @@ export class TerminalSettingsTab extends PluginSettingTab {
 								this.plugin.settings.themeMode =
 									value as ThemeMode;
 								await this.plugin.saveSettings();
+								this.plugin.refreshThemes();
 								this.display();
 							}
 						});
@@ -284,6 +483,7 @@ export class TerminalSettingsTab extends PluginSettingTab {
 									this.plugin.settings.darkThemePreset =
 										value;
 									await this.plugin.saveSettings();
+									this.plugin.refreshThemes();
 								}
 							});
 					});
@@ -307,12 +507,133 @@ export class TerminalSettingsTab extends PluginSettingTab {
 									this.plugin.settings.lightThemePreset =
 										value;
 									await this.plugin.saveSettings();
+									this.plugin.refreshThemes();
 								}
 							});
 					});
 			});
+		} else {
+			group.addSetting((setting: Setting) => {
+				setting
+					.setName("Color mapping")
+					.setDesc(
+						"Choose the Obsidian CSS variable or color used for each terminal color",
+					)
+					.addButton((btn) => {
+						btn.setButtonText("Edit").onClick(() => {
+							new ColorMappingModal(
+								this.app,
+								this.plugin.settings?.systemColors ?? {},
+								async (mapping) => {
+									if (!this.plugin.settings) return;
+									this.plugin.settings.systemColors = mapping;
+									await this.plugin.saveSettings();
+									this.plugin.refreshThemes();
+								},
+							).open();
+						});
+					});
+			});
 		}
 
+		// Minimum contrast
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Minimum contrast")
+				.setDesc(
+					"Lighten or darken text colors that are hard to read on the background, as a contrast ratio (1 turns this off, 4.5 is the WCAG level for body text)",
+				)
+				.addSlider((slider) => {
+					slider
+						.setLimits(1, 7, 0.5)
+						.setValue(
+							this.plugin.settings?.minimumContrastRatio ??
+								DEFAULT_SETTINGS.minimumContrastRatio,
+						)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.minimumContrastRatio =
+									value;
+								await this.plugin.saveSettings();
+								this.plugin.refreshThemes();
+							}
+						});
+				});
+		});
+
+		// Background image, opacity and blur
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Background image")
+				.setDesc(
+					"Vault path of an image shown behind the terminal. Lower the background opacity to see it.",
+				)
+				.addText((text) => {
+					text.setPlaceholder("Attachments/terminal.png")
+						.setValue(
+							this.plugin.settings?.backgroundImage ??
+								DEFAULT_SETTINGS.backgroundImage,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.backgroundImage =
+									value.trim();
+								await this.plugin.saveSettings();
+								this.plugin.refreshThemes();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Background opacity")
+				.setDesc(
+					"Opacity of the theme background in percent; below 100 the image or the pane behind shows through",
+				)
+				.addSlider((slider) => {
+					slider
+						.setLimits(0, 100, 5)
+						.setValue(
+							this.plugin.settings?.backgroundOpacity ??
+								DEFAULT_SETTINGS.backgroundOpacity,
+						)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.backgroundOpacity = value;
+								await this.plugin.saveSettings();
+								this.plugin.refreshThemes();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Background blur")
+				.setDesc(
+					"Blur what is behind the terminal, in pixels, for a frosted-glass look (0 turns it off)",
+				)
+				.addSlider((slider) => {
+					slider
+						.setLimits(0, 40, 1)
+						.setValue(
+							this.plugin.settings?.backgroundBlur ??
+								DEFAULT_SETTINGS.backgroundBlur,
+						)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.backgroundBlur = value;
+								await this.plugin.saveSettings();
+								this.plugin.refreshThemes();
+							}
+						});
+				});
+		});
+
 		// Font size
 		group.addSetting((setting: Setting) => {
 			setting
@@ -336,17 +657,144 @@ export class TerminalSettingsTab extends PluginSettingTab {
 		});
 
 		// Font family
+		group.addSetting((setting: Setting) => {
+			setting.setName("Font family").addText((text) => {
+				text.setPlaceholder(DEFAULT_SETTINGS.fontFamily)
+					.setValue(this.plugin.settings?.fontFamily ?? "")
+					.onChange(async (value) => {
+						if (this.plugin.settings) {
+							this.plugin.settings.fontFamily =
+								value || DEFAULT_SETTINGS.fontFamily;
+							this.describeFontFamily(
+								setting,
+								this.plugin.settings.fontFamily,
+							);
+							await this.plugin.saveSettings();
+						}
+					});
+			});
+			this.describeFontFamily(
+				setting,
+				this.plugin.settings?.fontFamily ?? DEFAULT_SETTINGS.fontFamily,
+			);
+		});
+
+		// Fallback fonts
 		group.addSetting((setting: Setting) => {
 			setting
-				.setName("Font family")
-				.setDesc("Font used in the terminal")
-				.addText((text) => {
-					text.setPlaceholder(DEFAULT_SETTINGS.fontFamily)
-						.setValue(this.plugin.settings?.fontFamily ?? "")
+				.setName("Fallback fonts")
+				.setDesc(
+					"Fonts (comma separated) used for characters the terminal font does not have, such as CJK, emoji and Nerd Font icons. Fonts that are not installed are skipped.",
+				)
+				.addTextArea((text) => {
+					text.setPlaceholder(DEFAULT_FONT_FALLBACK)
+						.setValue(this.plugin.settings?.fontFallback ?? "")
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.fontFallback = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		// Font weights
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Font weight")
+				.setDesc("Weight of normal and bold text")
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOptions(FONT_WEIGHTS)
+						.setValue(
+							this.plugin.settings?.fontWeight ??
+								DEFAULT_SETTINGS.fontWeight,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.fontWeight = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				})
+				.addDropdown((dropdown) => {
+					const weights = { ...FONT_WEIGHTS };
+					delete weights[""];
+					dropdown
+						.addOptions(weights)
+						.setValue(
+							this.plugin.settings?.fontWeightBold ??
+								DEFAULT_SETTINGS.fontWeightBold,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.fontWeightBold = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		// Letter spacing
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Letter spacing")
+				.setDesc("Extra space between characters in pixels")
+				.addSlider((slider) => {
+					slider
+						.setLimits(0, 5, 0.5)
+						.setValue(
+							this.plugin.settings?.letterSpacing ??
+								DEFAULT_SETTINGS.letterSpacing,
+						)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.letterSpacing = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		// Line height
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Line height")
+				.setDesc("Height of a line as a multiple of the font height")
+				.addSlider((slider) => {
+					slider
+						.setLimits(1, 2, 0.05)
+						.setValue(
+							this.plugin.settings?.lineHeight ??
+								DEFAULT_SETTINGS.lineHeight,
+						)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.lineHeight = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		// Ligatures
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Font ligatures")
+				.setDesc(
+					"Draw the ligatures of fonts such as Fira Code or Iosevka (=>, !=, www). The font's own ligature tables are read when Obsidian may access local fonts; otherwise a common set is drawn. Only the xterm.js renderers draw ligatures.",
+				)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(
+							this.plugin.settings?.fontLigatures ??
+								DEFAULT_SETTINGS.fontLigatures,
+						)
 						.onChange(async (value) => {
 							if (this.plugin.settings) {
-								this.plugin.settings.fontFamily =
-									value || DEFAULT_SETTINGS.fontFamily;
+								this.plugin.settings.fontLigatures = value;
 								await this.plugin.saveSettings();
 							}
 						});
@@ -396,6 +844,198 @@ export class TerminalSettingsTab extends PluginSettingTab {
 		});
 	}
 
+	/**
+	 * Font family description naming the installed font in use, or warning
+	 * when none of the listed fonts is installed
+	 */
+	private describeFontFamily(setting: Setting, fontFamily: string): void {
+		const named = parseFontList(fontFamily).filter(
+			(name) => !isGenericFont(name),
+		);
+		const installed = getInstalledFonts(fontFamily);
+		setting.setDesc(
+			createFragment((fragment) => {
+				fragment.appendText("Font used in the terminal");
+				if (installed.length > 0) {
+					fragment.appendText(` (using ${installed[0]})`);
+				} else if (named.length > 0) {
+					fragment.createEl("br");
+					fragment.createSpan({
+						cls: "mod-warning",
+						text: `Not installed: ${named.join(", ")}. The system monospace font is used instead.`,
+					});
+				}
+			}),
+		);
+	}
+
+	/**
+	 * Display custom themes with editing, import and export
+	 */
+	private displayCustomThemesSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Custom themes");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Your themes")
+				.setDesc(
+					"Themes you create or import from iTerm2, Windows Terminal, Alacritty, Ghostty or base16. They are listed with the presets when the theme mode is \"Use Presets\".",
+				)
+				.addButton((btn) => {
+					btn.setButtonText("Import").onClick(() => {
+						this.importThemeFile();
+					});
+				})
+				.addButton((btn) => {
+					btn.setButtonText("New theme")
+						.setCta()
+						.onClick(() => {
+							this.createTheme();
+						});
+				});
+		});
+
+		for (const theme of this.plugin.settings?.customThemes ?? []) {
+			group.addSetting((setting: Setting) => {
+				setting
+					.setName(theme.name)
+					.setDesc(theme.type === "dark" ? "Dark" : "Light")
+					.addExtraButton((btn) => {
+						btn.setIcon("pencil")
+							.setTooltip("Edit theme")
+							.onClick(() => {
+								this.editTheme(theme);
+							});
+					})
+					.addExtraButton((btn) => {
+						btn.setIcon("download")
+							.setTooltip("Export theme")
+							.onClick(() => {
+								this.showThemeExportMenu(
+									theme,
+									btn.extraSettingsEl,
+								);
+							});
+					})
+					.addExtraButton((btn) => {
+						btn.setIcon("trash-2")
+							.setTooltip("Delete theme")
+							.onClick(async () => {
+								if (!this.plugin.settings) return;
+								this.plugin.settings.customThemes =
+									this.plugin.settings.customThemes.filter(
+										(t) => t.id !== theme.id,
+									);
+								await this.saveThemes();
+							});
+					});
+			});
+		}
+	}
+
+	/**
+	 * Start a new theme from the preset currently in use
+	 */
+	private createTheme(): void {
+		const settings = this.plugin.settings;
+		if (!settings) return;
+		const isDark = document.body.classList.contains("theme-dark");
+		const base =
+			getThemeById(
+				isDark ? settings.darkThemePreset : settings.lightThemePreset,
+			) ?? getThemeById(DEFAULT_SETTINGS.darkThemePreset);
+		if (!base) return;
+
+		this.editTheme({
+			...base,
+			id: `custom-${Date.now().toString(36)}`,
+			name: `${base.name} (custom)`,
+		});
+	}
+
+	/**
+	 * Open the theme editor; the theme is added or replaced on save
+	 */
+	private editTheme(theme: CustomTerminalTheme): void {
+		new ThemeEditorModal(this.app, theme, async (edited) => {
+			if (!this.plugin.settings) return;
+			const themes = this.plugin.settings.customThemes;
+			const index = themes.findIndex((t) => t.id === edited.id);
+			if (index === -1) {
+				themes.push(edited);
+			} else {
+				themes[index] = edited;
+			}
+			await this.saveThemes();
+		}).open();
+	}
+
+	private showThemeExportMenu(
+		theme: CustomTerminalTheme,
+		targetEl: HTMLElement,
+	): void {
+		const menu = new Menu();
+		for (const format of Object.keys(THEME_FORMATS) as ThemeFormat[]) {
+			menu.addItem((item) => {
+				item.setTitle(THEME_FORMATS[format].name).onClick(async () => {
+					try {
+						await this.plugin.saveThemeExport(theme, format);
+					} catch (error) {
+						new Notice(
+							`Failed to export theme: ${error instanceof Error ? error.message : String(error)}`,
+						);
+					}
+				});
+			});
+		}
+		const rect = targetEl.getBoundingClientRect();
+		menu.showAtPosition({ x: rect.left, y: rect.bottom });
+	}
+
+	/**
+	 * Pick a color scheme file and add it as a custom theme
+	 */
+	private importThemeFile(): void {
+		const input = createEl("input", { attr: { type: "file" } });
+		input.addEventListener("change", async () => {
+			const file = input.files?.[0];
+			if (!file || !this.plugin.settings) return;
+
+			try {
+				const content = await file.text();
+				const format = detectThemeFormat(file.name, content);
+				if (!format) {
+					throw new Error("unrecognized color scheme format");
+				}
+				const theme = importTheme(
+					content,
+					format,
+					file.name.replace(/\.[^.]+$/, ""),
+				);
+				this.plugin.settings.customThemes.push({
+					...theme,
+					id: `custom-${Date.now().toString(36)}`,
+				});
+				await this.saveThemes();
+				new Notice(
+					`Imported "${theme.name}" (${THEME_FORMATS[format].name})`,
+				);
+			} catch (error) {
+				new Notice(
+					`Failed to import ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+		});
+		input.click();
+	}
+
+	private async saveThemes(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.refreshThemes();
+		this.display();
+	}
+
 	/**
 	 * Display shell settings section
 	 */
@@ -548,6 +1188,829 @@ export class TerminalSettingsTab extends PluginSettingTab {
 						});
 				});
 		});
+
+		// Shell integration
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Shell integration")
+				.setDesc(
+					"Let bash, zsh, fish and PowerShell report the working directory, command boundaries and exit codes. Shell arguments other than login and interactive flags (such as -c) turn it off, except for zsh. Applies to new terminals.",
+				)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(
+							this.plugin.settings?.shellIntegration ??
+								DEFAULT_SETTINGS.shellIntegration,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.shellIntegration = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+	}
+
+	/**
+	 * Display launch profiles section
+	 * Each profile gets its own group; commands are synced on save
+	 */
+	private displayProfilesSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Profiles");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Terminal profiles")
+				.setDesc(
+					"Named shells with their own arguments, environment, directory, renderer and theme. Each profile gets an \"Open profile\" command and an entry in the new tab menu.",
+				)
+				.addButton((btn) => {
+					btn.setButtonText("Add profile")
+						.setCta()
+						.onClick(async () => {
+							if (!this.plugin.settings) return;
+							this.plugin.settings.profiles.push({
+								id: `profile-${Date.now().toString(36)}`,
+								name: `Profile ${this.plugin.settings.profiles.length + 1}`,
+								shell: "",
+								args: [],
+								env: {},
+								cwd: "",
+								renderer: "",
+								themePreset: "",
+								backgroundImage: "",
+							});
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+		});
+
+		for (const profile of this.plugin.settings?.profiles ?? []) {
+			this.displayProfile(containerEl, profile);
+		}
+	}
+
+	/**
+	 * Display the fields of a single profile
+	 */
+	private displayProfile(
+		containerEl: HTMLElement,
+		profile: TerminalProfile,
+	): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading(profile.name || "Untitled profile");
+
+		const save = async () => {
+			await this.plugin.saveSettings();
+		};
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Name")
+				.setDesc("Shown in the command palette and the new tab menu")
+				.addText((text) => {
+					text.setValue(profile.name).onChange(async (value) => {
+						profile.name = value.trim();
+						await save();
+					});
+				})
+				.addExtraButton((btn) => {
+					btn.setIcon("trash-2")
+						.setTooltip("Delete profile")
+						.onClick(async () => {
+							if (!this.plugin.settings) return;
+							this.plugin.settings.profiles =
+								this.plugin.settings.profiles.filter(
+									(p) => p.id !== profile.id,
+								);
+							await save();
+							this.display();
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Shell")
+				.setDesc("Executable to run, empty to use the default shell")
+				.addText((text) => {
+					text.setPlaceholder(
+						Platform.isWin ? "wsl.exe" : "/usr/bin/python3",
+					)
+						.setValue(profile.shell)
+						.onChange(async (value) => {
+							profile.shell = value.trim();
+							await save();
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Arguments")
+				.setDesc("Arguments passed to the shell (comma separated)")
+				.addText((text) => {
+					text.setPlaceholder("-i")
+						.setValue(profile.args.join(", "))
+						.onChange(async (value) => {
+							profile.args = value
+								.split(",")
+								.map((s) => s.trim())
+								.filter((s) => s.length > 0);
+							await save();
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Environment variables")
+				.setDesc(
+					"One KEY=value per line, added to the inherited environment",
+				)
+				.addTextArea((text) => {
+					text.setPlaceholder("PYTHONSTARTUP=~/.pythonrc")
+						.setValue(
+							Object.entries(profile.env)
+								.map(([key, value]) => `${key}=${value}`)
+								.join("\n"),
+						)
+						.onChange(async (value) => {
+							profile.env = this.parseEnvLines(value);
+							await save();
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Starting directory")
+				.setDesc("Absolute path, empty to start in the vault folder")
+				.addText((text) => {
+					text.setValue(profile.cwd).onChange(async (value) => {
+						profile.cwd = value.trim();
+						await save();
+					});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Renderer")
+				.setDesc("Applies to terminals opened after the change")
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption("", "Use global setting")
+						.addOption("xterm", "Xterm.js (Canvas)")
+						.addOption("xterm-webgl", "Xterm.js (WebGL)")
+						.addOption("ghostty", "Ghostty")
+						.setValue(profile.renderer)
+						.onChange(async (value) => {
+							profile.renderer = value as TerminalRenderer | "";
+							await save();
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Theme")
+				.setDesc("Preset theme for this profile")
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Use global theme");
+					[...getDarkThemes(), ...getLightThemes()].forEach(
+						({ id, theme }) => {
+							dropdown.addOption(id, theme.name);
+						},
+					);
+					dropdown
+						.setValue(profile.themePreset)
+						.onChange(async (value) => {
+							profile.themePreset = value;
+							await save();
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Background image")
+				.setDesc(
+					"Vault path of an image shown behind this profile's terminals, empty to use the global image",
+				)
+				.addText((text) => {
+					text.setPlaceholder("Attachments/terminal.png")
+						.setValue(profile.backgroundImage ?? "")
+						.onChange(async (value) => {
+							profile.backgroundImage = value.trim();
+							await save();
+							this.plugin.refreshThemes();
+						});
+				});
+		});
+
+		const backgroundNumbers: Array<{
+			key: "backgroundOpacity" | "backgroundBlur";
+			name: string;
+			desc: string;
+			max: number;
+		}> = [
+			{
+				key: "backgroundOpacity",
+				name: "Background opacity",
+				desc: "Opacity of the theme background in percent (0-100), empty to use the global opacity",
+				max: 100,
+			},
+			{
+				key: "backgroundBlur",
+				name: "Background blur",
+				desc: "Blur behind the terminal in pixels (0-40), empty to use the global blur",
+				max: 40,
+			},
+		];
+		for (const { key, name, desc, max } of backgroundNumbers) {
+			group.addSetting((setting: Setting) => {
+				setting
+					.setName(name)
+					.setDesc(desc)
+					.addText((text) => {
+						text.inputEl.type = "number";
+						text.inputEl.min = "0";
+						text.inputEl.max = String(max);
+						text.setPlaceholder(
+							String(
+								this.plugin.settings?.[key] ??
+									DEFAULT_SETTINGS[key],
+							),
+						)
+							.setValue(profile[key]?.toString() ?? "")
+							.onChange(async (value) => {
+								const number = parseFloat(value);
+								if (isNaN(number)) {
+									delete profile[key];
+								} else {
+									profile[key] = Math.min(
+										max,
+										Math.max(0, number),
+									);
+								}
+								await save();
+								this.plugin.refreshThemes();
+							});
+					});
+			});
+		}
+	}
+
+	/**
+	 * Display command snippets section
+	 * Each snippet gets its own group like profiles
+	 */
+	private displaySnippetsSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Snippets");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Snippet folder")
+				.setDesc(
+					"Vault folder with one note per snippet. The first code block is the command; front matter can set name, profile, cwd and register-command.",
+				)
+				.addText((text) => {
+					text.setPlaceholder("Terminal snippets")
+						.setValue(this.plugin.settings?.snippetFolder ?? "")
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.snippetFolder =
+									value.trim();
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Command snippets")
+				.setDesc(
+					"Named commands for \"Run snippet\". Write {{name}} or {{name:default}} for values asked for when the snippet runs.",
+				)
+				.addButton((btn) => {
+					btn.setButtonText("Add snippet")
+						.setCta()
+						.onClick(async () => {
+							if (!this.plugin.settings) return;
+							this.plugin.settings.snippets.push({
+								id: `snippet-${Date.now().toString(36)}`,
+								name: `Snippet ${this.plugin.settings.snippets.length + 1}`,
+								command: "",
+								profileId: "",
+								cwd: "",
+								registerCommand: false,
+							});
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+		});
+
+		for (const snippet of this.plugin.settings?.snippets ?? []) {
+			this.displaySnippet(containerEl, snippet);
+		}
+	}
+
+	/**
+	 * Display the fields of a single snippet
+	 */
+	private displaySnippet(
+		containerEl: HTMLElement,
+		snippet: TerminalSnippet,
+	): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading(snippet.name || "Untitled snippet");
+
+		const save = async () => {
+			await this.plugin.saveSettings();
+		};
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Name")
+				.setDesc("Shown in the snippet picker and the command palette")
+				.addText((text) => {
+					text.setValue(snippet.name).onChange(async (value) => {
+						snippet.name = value.trim();
+						await save();
+					});
+				})
+				.addExtraButton((btn) => {
+					btn.setIcon("trash-2")
+						.setTooltip("Delete snippet")
+						.onClick(async () => {
+							if (!this.plugin.settings) return;
+							this.plugin.settings.snippets =
+								this.plugin.settings.snippets.filter(
+									(s) => s.id !== snippet.id,
+								);
+							await save();
+							this.display();
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Command")
+				.setDesc("Sent to the terminal as typed; one command per line")
+				.addTextArea((text) => {
+					text.setPlaceholder("git commit -m \"{{message}}\"")
+						.setValue(snippet.command)
+						.onChange(async (value) => {
+							snippet.command = value;
+							await save();
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Profile")
+				.setDesc(
+					"Run in a terminal with this profile, opening one if the focused terminal has another",
+				)
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Focused terminal");
+					for (const profile of this.plugin.settings?.profiles ??
+						[]) {
+						dropdown.addOption(
+							profile.id,
+							profile.name || "Untitled profile",
+						);
+					}
+					dropdown
+						.setValue(snippet.profileId)
+						.onChange(async (value) => {
+							snippet.profileId = value;
+							await save();
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Starting directory")
+				.setDesc(
+					"Absolute or vault-relative path, empty to run wherever the focused terminal is",
+				)
+				.addText((text) => {
+					text.setValue(snippet.cwd).onChange(async (value) => {
+						snippet.cwd = value.trim();
+						await save();
+					});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Register command")
+				.setDesc(
+					"Add a \"Run snippet\" command for this snippet so it can have a hotkey",
+				)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(snippet.registerCommand)
+						.onChange(async (value) => {
+							snippet.registerCommand = value;
+							await save();
+						});
+				});
+		});
+	}
+
+	/**
+	 * Parse "KEY=value" lines, ignoring blanks and lines without a key
+	 */
+	private parseEnvLines(value: string): Record<string, string> {
+		const env: Record<string, string> = {};
+		for (const line of value.split("\n")) {
+			const index = line.indexOf("=");
+			if (index <= 0) continue;
+			const key = line.slice(0, index).trim();
+			if (key) {
+				env[key] = line.slice(index + 1).trim();
+			}
+		}
+		return env;
+	}
+
+	/**
+	 * Display keybindings section
+	 */
+	private displayKeybindingsSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Keybindings");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Keys sent to Obsidian")
+				.setDesc(
+					"Comma-separated keys that skip the shell and run Obsidian hotkeys while a terminal has focus, e.g. Mod+P, Mod+O. Every other key goes to the shell unless it is bound below",
+				)
+				.addText((text) => {
+					text.setPlaceholder("Mod+P, Mod+O")
+						.setValue(
+							(this.plugin.settings?.obsidianKeys ?? []).join(
+								", ",
+							),
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.obsidianKeys = value
+									.split(",")
+									.map((key) => key.trim())
+									.filter((key) => parseKeybinding(key));
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		for (const action of TERMINAL_KEY_ACTION_IDS) {
+			group.addSetting((setting: Setting) =>
+				this.displayKeybinding(setting, action),
+			);
+		}
+	}
+
+	/**
+	 * Display one terminal action with its key, recorded from the keyboard
+	 */
+	private displayKeybinding(
+		setting: Setting,
+		action: TerminalKeyAction,
+	): void {
+		const info = TERMINAL_KEY_ACTIONS[action];
+		const getKey = () =>
+			this.plugin.settings?.keybindings[action] ?? info.defaultKey;
+		const saveKey = async (key: string) => {
+			if (!this.plugin.settings) return;
+			this.plugin.settings.keybindings[action] = key;
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		setting
+			.setName(info.name)
+			.addButton((btn) => {
+				btn.setButtonText(formatKeybinding(getKey()) || "Not set")
+					.setTooltip("Click, then press the new key")
+					.onClick(() => {
+						btn.setButtonText("Press a key…");
+						// Capture before the settings modal sees the key
+						const onKeyDown = (evt: KeyboardEvent) => {
+							evt.preventDefault();
+							evt.stopPropagation();
+							const key = keybindingFromEvent(evt);
+							if (!key) return;
+
+							activeDocument.removeEventListener(
+								"keydown",
+								onKeyDown,
+								true,
+							);
+							void saveKey(key);
+						};
+						activeDocument.addEventListener(
+							"keydown",
+							onKeyDown,
+							true,
+						);
+					});
+			})
+			.addExtraButton((btn) => {
+				btn.setIcon("rotate-ccw")
+					.setTooltip("Restore default")
+					.onClick(() => void saveKey(info.defaultKey));
+			})
+			.addExtraButton((btn) => {
+				btn.setIcon("x")
+					.setTooltip("Disable (send the key to the shell)")
+					.onClick(() => void saveKey(""));
+			});
+	}
+
+	/**
+	 * Display copy and paste settings section
+	 */
+	private displayClipboardSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Copy and paste");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Copy on select")
+				.setDesc("Copy text to the clipboard as soon as it is selected")
+				.addToggle((toggle) => {
+					toggle
+						.setValue(
+							this.plugin.settings?.copyOnSelect ??
+								DEFAULT_SETTINGS.copyOnSelect,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.copyOnSelect = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Trim trailing newlines")
+				.setDesc(
+					"Drop line breaks at the end of pasted text so its last line is not run right away",
+				)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(
+							this.plugin.settings?.pasteTrimTrailingNewlines ??
+								DEFAULT_SETTINGS.pasteTrimTrailingNewlines,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.pasteTrimTrailingNewlines =
+									value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Paste line endings")
+				.setDesc("Line breaks pasted text is sent with")
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption("enter", "Enter key (CR)")
+						.addOption("lf", "Unix (LF)")
+						.addOption("crlf", "Windows (CRLF)")
+						.addOption("keep", "Keep as copied")
+						.setValue(
+							this.plugin.settings?.pasteLineEnding ??
+								DEFAULT_SETTINGS.pasteLineEnding,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.pasteLineEnding =
+									value as PasteLineEnding;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Warn before multi-line paste")
+				.setDesc(
+					"Ask before pasting several lines, which the shell may run as separate commands",
+				)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(
+							this.plugin.settings?.confirmMultilinePaste ??
+								DEFAULT_SETTINGS.confirmMultilinePaste,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.confirmMultilinePaste =
+									value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Warn before dangerous paste")
+				.setDesc("Ask before pasting text containing sudo or rm -rf")
+				.addToggle((toggle) => {
+					toggle
+						.setValue(
+							this.plugin.settings?.confirmDangerousPaste ??
+								DEFAULT_SETTINGS.confirmDangerousPaste,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.confirmDangerousPaste =
+									value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+	}
+
+	/**
+	 * Display session settings section
+	 */
+	private displaySessionSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Sessions");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Restore sessions on startup")
+				.setDesc(
+					"Save scrollback, working directory and shell with the workspace, and replay them above a fresh shell after a restart",
+				)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(
+							this.plugin.settings?.persistSessions ??
+								DEFAULT_SETTINGS.persistSessions,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.persistSessions = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+	}
+
+	/**
+	 * Display layout settings section
+	 */
+	private displayLayoutSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Layout");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Open new terminals in")
+				.setDesc(
+					"The dock is a tabbed panel along the bottom of the main area, shown and hidden with \"Toggle terminal dock\"",
+				)
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption("dock", "Bottom dock")
+						.addOption("split", "Split of the active pane")
+						.addOption("tab", "New tab")
+						.addOption("sidebar", "Right sidebar")
+						.setValue(
+							this.plugin.settings?.terminalLocation ??
+								DEFAULT_SETTINGS.terminalLocation,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.terminalLocation =
+									value as TerminalLocation;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+	}
+
+	/**
+	 * Display drop-down terminal settings section
+	 */
+	private displayDropdownSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Drop-down terminal");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Height")
+				.setDesc(
+					"Percentage of the window covered by the terminal opened with \"Toggle drop-down terminal\". Dragging its bottom edge also changes it.",
+				)
+				.addSlider((slider) => {
+					slider
+						.setLimits(15, 90, 5)
+						.setValue(
+							this.plugin.settings?.dropdownHeight ??
+								DEFAULT_SETTINGS.dropdownHeight,
+						)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.dropdownHeight = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+	}
+
+	/**
+	 * Display code block runner settings section
+	 */
+	private displayCodeBlockSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Code blocks");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Confirm before running")
+				.setDesc(
+					"Show the commands and ask for confirmation before a shell code block is sent to a terminal",
+				)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(
+							this.plugin.settings?.confirmCodeBlockRun ??
+								DEFAULT_SETTINGS.confirmCodeBlockRun,
+						)
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.confirmCodeBlockRun =
+									value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+	}
+
+	/**
+	 * Display background command settings section
+	 */
+	private displayBackgroundCommandSection(containerEl: HTMLElement): void {
+		const group = new SettingGroup(containerEl);
+		group.setHeading("Background commands");
+
+		group.addSetting((setting: Setting) => {
+			setting
+				.setName("Timeout")
+				.setDesc(
+					"Seconds before a command started with \"Run command in background\" is stopped (0 for no limit)",
+				)
+				.addSlider((slider) => {
+					slider
+						.setLimits(0, 3600, 30)
+						.setValue(
+							this.plugin.settings?.backgroundCommandTimeout ??
+								DEFAULT_SETTINGS.backgroundCommandTimeout,
+						)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							if (this.plugin.settings) {
+								this.plugin.settings.backgroundCommandTimeout =
+									value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
 	}
 
 	/**
@@ -0,0 +1,108 @@
+/**
+ * Public API exposed to other plugins and scripts as
+ * `app.plugins.plugins["o-terminal"].api`
+ */
+
+/**
+ * Where a terminal opened through the API is shown
+ * "none" starts the session detached; it can be reattached later
+ */
+export type TerminalOpenLocation =
+	"tab" | "split" | "dock" | "sidebar" | "window" | "none";
+
+export interface TerminalOpenOptions {
+	/** ID or name of a settings profile */
+	profile?: string;
+	/** Shell executable (overrides the profile shell) */
+	shell?: string;
+	/** Shell arguments (overrides the profile arguments) */
+	args?: string[];
+	/** Starting directory (absolute path) */
+	cwd?: string;
+	/** Extra environment variables, merged over the profile's */
+	env?: Record<string, string>;
+	/** Session name shown instead of the cwd-based title */
+	name?: string;
+	/** Defaults to "tab" */
+	location?: TerminalOpenLocation;
+}
+
+export interface TerminalRunOptions {
+	/**
+	 * Run inside this session instead of a one-off process
+	 * The shell must report command boundaries (shell integration)
+	 */
+	sessionId?: string;
+	/** ID or name of a settings profile (one-off runs only) */
+	profile?: string;
+	/** Working directory (one-off runs only) */
+	cwd?: string;
+	/** Extra environment variables (one-off runs only) */
+	env?: Record<string, string>;
+	/** Give up after this many milliseconds */
+	timeout?: number;
+	/**
+	 * Run without a TTY so stdout and stderr are kept apart
+	 * (one-off runs only, default false)
+	 */
+	pipe?: boolean;
+	/**
+	 * Show progress in the status bar and the result as a notice with a
+	 * "Show in terminal" button (one-off runs only, default false)
+	 */
+	notify?: boolean;
+}
+
+export interface TerminalRunResult {
+	exitCode: number;
+	/** Output with ANSI escapes removed */
+	output: string;
+	/** Standard output; everything for PTY runs (one-off runs only) */
+	stdout?: string;
+	/** Standard error; empty for PTY runs (one-off runs only) */
+	stderr?: string;
+}
+
+export interface TerminalSessionInfo {
+	id: string;
+	name?: string;
+	title: string;
+	state: "active" | "detached" | "exited";
+	pid?: number;
+	shell?: string;
+	cwd: string;
+	profileId?: string;
+	exitCode?: number;
+	createdAt?: number;
+}
+
+export interface ITerminalAPI {
+	/** Incremented on breaking changes */
+	readonly version: number;
+
+	/** Start a session and return its ID */
+	open(options?: TerminalOpenOptions): Promise<string>;
+
+	/** Type text into a session, optionally pressing Enter */
+	sendText(sessionId: string, text: string, execute?: boolean): void;
+
+	/** Run a command and resolve with its exit code and output */
+	run(
+		command: string,
+		options?: TerminalRunOptions,
+	): Promise<TerminalRunResult>;
+
+	/** Write to a session's display without sending it to the shell */
+	write(sessionId: string, data: string): void;
+
+	/** Subscribe to raw output of a session */
+	onOutput(
+		sessionId: string,
+		callback: (data: string) => void,
+	): { dispose(): void };
+
+	listSessions(): TerminalSessionInfo[];
+
+	/** Close the view (if any) and end the session */
+	close(sessionId: string): void;
+}
@@ -8,6 +8,7 @@ export enum TerminalErrorType {
 	NODE_PTY_NOT_AVAILABLE = "NODE_PTY_NOT_AVAILABLE",
 	PROCESS_TERMINATED = "PROCESS_TERMINATED",
 	VIEW_CREATION_FAILED = "VIEW_CREATION_FAILED",
+	NOT_FOUND = "NOT_FOUND",
 }
 
 /**
@@ -68,6 +69,8 @@ export class TerminalPluginError extends Error {
 				return "Terminal process terminated unexpectedly. You can try restarting the terminal.";
 			case TerminalErrorType.VIEW_CREATION_FAILED:
 				return "Failed to create terminal view. Please try again or restart Obsidian.";
+			case TerminalErrorType.NOT_FOUND:
+				return "Terminal session or profile not found.";
 			default:
 				return this.message;
 		}
@@ -3,3 +3,4 @@ export * from "./terminal";
 export * from "./pty";
 export * from "./config";
 export * from "./errors";
+export * from "./api";
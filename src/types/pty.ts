@@ -24,7 +24,7 @@ export interface IPTYManager {
 	createPTY(options: PTYOptions): IPty;
 	destroyPTY(pty: IPty): void;
 	getDefaultShell(): string;
-	getDefaultOptions(): PTYOptions;
+	getDefaultOptions(profile?: PTYProfile): PTYOptions;
 }
 
 /**
@@ -39,6 +39,18 @@ export interface PTYOptions {
 	rows: number;
 }
 
+/**
+ * Launch overrides applied on top of the default PTY options
+ * Empty fields fall back to the plugin-wide shell settings
+ */
+export interface PTYProfile {
+	shell?: string;
+	args?: string[];
+	/** Extra environment variables, merged over the inherited environment */
+	env?: Record<string, string>;
+	cwd?: string;
+}
+
 /**
  * Electron integration bridge interface
  */
@@ -56,7 +68,7 @@ export abstract class PTYManager implements IPTYManager {
 	abstract createPTY(options: PTYOptions): IPty;
 	abstract destroyPTY(pty: IPty): void;
 	abstract getDefaultShell(): string;
-	abstract getDefaultOptions(): PTYOptions;
+	abstract getDefaultOptions(profile?: PTYProfile): PTYOptions;
 }
 
 /**
@@ -1,7 +1,7 @@
 import { ItemView } from "obsidian";
 import { Terminal as XTerminal } from "@xterm/xterm";
 import { Terminal as GhosttyTerminal } from "ghostty-web";
-import { IPty } from "./pty";
+import { IPty, PTYProfile } from "./pty";
 
 // Union type for terminal instances (xterm.js or ghostty-web)
 export type Terminal = XTerminal | GhosttyTerminal;
@@ -39,8 +39,65 @@ export interface TerminalSession {
 	initialCwd?: string;
 	/** Shell path used to create the session */
 	shell?: string;
+	/** Last known working directory (updated when the view detaches) */
+	cwd?: string;
+	/** User-assigned name, shown instead of the cwd-based title */
+	name?: string;
+	/** Exit code once the PTY process has exited */
+	exitCode?: number;
+	/** Epoch milliseconds when the session was created */
+	createdAt?: number;
+	/** Tail of raw PTY output, kept while no view is attached */
+	outputTail?: string;
+	/** Launch overrides the session was spawned with (reused on restart) */
+	profile?: PTYProfile;
+	/** ID of the settings profile the session was opened from */
+	profileId?: string;
+	/** Whether the shell has enabled bracketed paste (DECSET 2004) */
+	bracketedPaste?: boolean;
+	/** Whether the shell has reported command boundaries (OSC 133) */
+	shellIntegration?: boolean;
+	/** Whether input typed here is mirrored to the other broadcasting sessions */
+	broadcast?: boolean;
 }
 
+/**
+ * Buffer row that follows scrollback trimming where the renderer supports it
+ * (xterm.js markers); Ghostty rows are absolute indices at creation time
+ */
+export interface RowMarker {
+	readonly line: number;
+	dispose(): void;
+}
+
+/**
+ * A command reported by shell integration (OSC 133)
+ */
+export interface ShellCommand {
+	/** Row where the prompt starts (133;A) */
+	prompt: RowMarker;
+	/** Row where the command output starts (133;C) */
+	output?: RowMarker;
+	/** Row where the command finished and the next prompt starts (133;D) */
+	end?: RowMarker;
+	/** Epoch milliseconds when the command was accepted */
+	startedAt?: number;
+	/** Epoch milliseconds when the command finished */
+	finishedAt?: number;
+	exitCode?: number;
+}
+
+/**
+ * File format of a scrollback export
+ * markdown: plain text in a code block, html: colors kept, ansi: raw escapes
+ */
+export type ScrollbackExportFormat = "markdown" | "html" | "ansi";
+
+/**
+ * Part of the buffer included in a scrollback export
+ */
+export type ScrollbackExportRange = "all" | "visible" | "selection";
+
 /**
  * Terminal view interface extending Obsidian's ItemView
  */
@@ -58,19 +115,50 @@ export interface ITerminalView {
 
 /**
  * Terminal state for persistence
+ * Stored in the workspace layout so a view can be rebuilt after a restart
  */
 export interface TerminalState {
 	id: string;
 	isActive: boolean;
 	title: string;
 	workingDirectory: string;
+	/** Shell path used to spawn the session */
+	shell?: string;
+	/** Settings profile the session was opened from */
+	profileId?: string;
 	processId: number;
-	createdAt: Date;
-	lastActivity: Date;
+	/** Epoch milliseconds (Date does not survive JSON serialization) */
+	createdAt: number;
+	lastActivity: number;
 	dimensions: {
 		cols: number;
 		rows: number;
 	};
+	/** Serialized scrollback (ANSI for xterm.js, plain text for Ghostty) */
+	buffer?: string;
+}
+
+/**
+ * View state handed to TerminalView via setViewState/getState
+ */
+export interface TerminalViewState {
+	/** Attach to a live session owned by TerminalManager */
+	sessionId?: string;
+	/** Persisted snapshot used to rebuild the view after a restart */
+	terminal?: TerminalState;
+	/** Output shown above the live session's first prompt (not persisted) */
+	replay?: TerminalReplay;
+	/** Font size change of this view in pixels, on top of the setting */
+	zoom?: number;
+}
+
+/**
+ * Output written to a view before it connects to its PTY
+ */
+export interface TerminalReplay {
+	buffer: string;
+	/** Dimmed line written under the buffer */
+	banner?: string;
 }
 
 /**
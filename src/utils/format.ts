@@ -0,0 +1,17 @@
+/**
+ * Formatting helpers shared by the UI and the background runner
+ *
+ * @module utils/format
+ */
+
+/**
+ * Format a duration as "850 ms", "12.3 s" or "4m 05s"
+ */
+export function formatDuration(ms: number): string {
+	if (ms < 1000) return `${Math.round(ms)} ms`;
+	if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+
+	const minutes = Math.floor(ms / 60_000);
+	const seconds = Math.floor((ms % 60_000) / 1000);
+	return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+}
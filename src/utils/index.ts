@@ -0,0 +1,2 @@
+// Shared utilities
+export * from "./format";
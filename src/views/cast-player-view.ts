@@ -0,0 +1,59 @@
+import { FileView, TFile, WorkspaceLeaf } from "obsidian";
+import { parseAsciicast } from "@/core/asciicast";
+import { CAST_FILE_EXTENSION, VIEW_TYPE_CAST_PLAYER } from "@/constants";
+import type TerminalPlugin from "@/main";
+import { CastPlayer } from "./cast-player";
+
+/**
+ * Opens asciicast (.cast) files from the vault in a read-only player
+ */
+export class CastPlayerView extends FileView {
+	plugin: TerminalPlugin;
+
+	private player: CastPlayer | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: TerminalPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_CAST_PLAYER;
+	}
+
+	getDisplayText(): string {
+		return this.file?.basename ?? "Terminal recording";
+	}
+
+	getIcon(): string {
+		return "circle-play";
+	}
+
+	canAcceptExtension(extension: string): boolean {
+		return extension === CAST_FILE_EXTENSION;
+	}
+
+	async onLoadFile(file: TFile): Promise<void> {
+		this.contentEl.empty();
+		this.contentEl.addClass("terminal-cast-view");
+
+		const text = await this.app.vault.cachedRead(file);
+		try {
+			this.player = this.plugin.createCastPlayer(
+				this.contentEl,
+				parseAsciicast(text),
+			);
+		} catch (error) {
+			this.contentEl.createDiv({
+				cls: "terminal-cast-error",
+				text: `Cannot play ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+			});
+		}
+	}
+
+	async onUnloadFile(): Promise<void> {
+		this.player?.destroy();
+		this.player = null;
+		this.contentEl.empty();
+	}
+}
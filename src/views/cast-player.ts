@@ -0,0 +1,266 @@
+import { Terminal as XTerminal, type ITheme } from "@xterm/xterm";
+import { setIcon } from "obsidian";
+import type { Asciicast } from "@/core/asciicast";
+
+// xterm.js CSS, injected next to the player (it is not part of main.css)
+import xtermCss from "@xterm/xterm/css/xterm.css?inline";
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+/** Longest wait between ticks, so the progress bar keeps moving */
+const MAX_TICK_MS = 250;
+
+/**
+ * Format seconds as m:ss
+ */
+function formatTime(seconds: number): string {
+	const total = Math.floor(seconds);
+	const minutes = Math.floor(total / 60);
+	return `${minutes}:${(total % 60).toString().padStart(2, "0")}`;
+}
+
+/**
+ * Read-only xterm.js terminal that plays an asciicast
+ * with play/pause, speed and seek controls
+ *
+ * Used by the .cast file view and the `terminal-replay` code block.
+ * Every write (including resets and resizes) goes through xterm's write
+ * queue, so seeking never mixes old and new output.
+ */
+export class CastPlayer {
+	private cast: Asciicast;
+	private terminal: XTerminal;
+	private rootEl: HTMLElement;
+	private playButton: HTMLElement;
+	private seekInput: HTMLInputElement;
+	private timeLabel: HTMLElement;
+
+	private duration: number;
+	/** Index of the next event to play */
+	private index = 0;
+	/** Cast time (seconds) at playStartedAt, or the paused position */
+	private position = 0;
+	/** performance.now() when playback (re)started, null while paused */
+	private playStartedAt: number | null = null;
+	private speed = 1;
+	private timer: number | null = null;
+
+	constructor(
+		containerEl: HTMLElement,
+		cast: Asciicast,
+		options: {
+			theme?: ITheme;
+			fontSize?: number;
+			fontFamily?: string;
+		} = {},
+	) {
+		this.cast = cast;
+		this.duration = cast.events[cast.events.length - 1]?.[0] ?? 0;
+
+		this.rootEl = containerEl.createDiv({ cls: "terminal-cast-player" });
+		this.rootEl.createEl("style", { text: xtermCss });
+
+		const screenEl = this.rootEl.createDiv({ cls: "terminal-cast-screen" });
+		this.terminal = new XTerminal({
+			cols: cast.header.width,
+			rows: cast.header.height,
+			disableStdin: true,
+			cursorBlink: false,
+			scrollback: 0,
+			theme: options.theme,
+			fontSize: options.fontSize,
+			fontFamily: options.fontFamily,
+		});
+		this.terminal.open(screenEl);
+
+		const controlsEl = this.rootEl.createDiv({
+			cls: "terminal-cast-controls",
+		});
+
+		this.playButton = controlsEl.createDiv({
+			cls: "clickable-icon",
+			attr: { "aria-label": "Play" },
+		});
+		setIcon(this.playButton, "play");
+		this.playButton.addEventListener("click", () => this.togglePlay());
+
+		this.seekInput = controlsEl.createEl("input", {
+			cls: "terminal-cast-seek",
+			type: "range",
+			attr: { min: "0", max: String(this.duration), step: "0.1" },
+		});
+		this.seekInput.value = "0";
+		this.seekInput.addEventListener("input", () =>
+			this.seek(parseFloat(this.seekInput.value)),
+		);
+
+		this.timeLabel = controlsEl.createSpan({ cls: "terminal-cast-time" });
+
+		const speedSelect = controlsEl.createEl("select", {
+			cls: "dropdown",
+			attr: { "aria-label": "Playback speed" },
+		});
+		for (const speed of PLAYBACK_SPEEDS) {
+			speedSelect.createEl("option", {
+				text: `${speed}×`,
+				value: String(speed),
+			});
+		}
+		speedSelect.value = String(this.speed);
+		speedSelect.addEventListener("change", () =>
+			this.setSpeed(parseFloat(speedSelect.value)),
+		);
+
+		this.updateControls();
+	}
+
+	get isPlaying(): boolean {
+		return this.playStartedAt !== null;
+	}
+
+	play(): void {
+		if (this.isPlaying) return;
+		if (this.index >= this.cast.events.length) {
+			this.seek(0);
+		}
+		this.playStartedAt = performance.now();
+		this.tick();
+	}
+
+	pause(): void {
+		if (!this.isPlaying) return;
+		this.position = this.currentTime();
+		this.playStartedAt = null;
+		this.clearTimer();
+		this.updateControls();
+	}
+
+	togglePlay(): void {
+		if (this.isPlaying) {
+			this.pause();
+		} else {
+			this.play();
+		}
+	}
+
+	setSpeed(speed: number): void {
+		this.position = this.currentTime();
+		if (this.isPlaying) this.playStartedAt = performance.now();
+		this.speed = speed;
+	}
+
+	/**
+	 * Jump to a cast time by replaying everything before it at once
+	 */
+	seek(time: number): void {
+		const target = Math.max(0, Math.min(time, this.duration));
+
+		// Going back needs a fresh screen; RIS is queued like any output
+		if (target < this.currentTime()) {
+			this.index = 0;
+			this.write("\x1bc");
+			this.resize(this.cast.header.width, this.cast.header.height);
+		}
+
+		this.playUntil(target);
+		this.position = target;
+		if (this.isPlaying) {
+			this.playStartedAt = performance.now();
+			this.clearTimer();
+			this.tick();
+		} else {
+			this.updateControls();
+		}
+	}
+
+	destroy(): void {
+		this.clearTimer();
+		this.playStartedAt = null;
+		this.terminal.dispose();
+		this.rootEl.remove();
+	}
+
+	private currentTime(): number {
+		if (this.playStartedAt === null) return this.position;
+		return (
+			this.position +
+			((performance.now() - this.playStartedAt) / 1000) * this.speed
+		);
+	}
+
+	private tick(): void {
+		this.timer = null;
+		const now = this.currentTime();
+		this.playUntil(now);
+
+		const next = this.cast.events[this.index];
+		if (!next) {
+			this.position = this.duration;
+			this.playStartedAt = null;
+			this.updateControls();
+			return;
+		}
+
+		this.updateControls();
+		const wait = ((next[0] - now) / this.speed) * 1000;
+		this.timer = window.setTimeout(
+			() => this.tick(),
+			Math.max(0, Math.min(wait, MAX_TICK_MS)),
+		);
+	}
+
+	/**
+	 * Apply events up to a cast time, batching consecutive output
+	 */
+	private playUntil(time: number): void {
+		const { events } = this.cast;
+		let output = "";
+
+		while (this.index < events.length && events[this.index][0] <= time) {
+			const [, code, data] = events[this.index];
+			if (code === "o") {
+				output += data;
+			} else if (code === "r") {
+				const [cols, rows] = data.split("x").map(Number);
+				if (cols > 0 && rows > 0) {
+					this.write(output);
+					output = "";
+					this.resize(cols, rows);
+				}
+			}
+			this.index++;
+		}
+
+		this.write(output);
+	}
+
+	private write(data: string): void {
+		if (data) this.terminal.write(data);
+	}
+
+	/**
+	 * Resize once the output queued before it has been written
+	 */
+	private resize(cols: number, rows: number): void {
+		this.terminal.write("", () => this.terminal.resize(cols, rows));
+	}
+
+	private updateControls(): void {
+		const time = Math.min(this.currentTime(), this.duration);
+		this.seekInput.value = String(time);
+		this.timeLabel.setText(
+			`${formatTime(time)} / ${formatTime(this.duration)}`,
+		);
+
+		const label = this.isPlaying ? "Pause" : "Play";
+		this.playButton.setAttr("aria-label", label);
+		setIcon(this.playButton, this.isPlaying ? "pause" : "play");
+	}
+
+	private clearTimer(): void {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+}
@@ -0,0 +1,201 @@
+import { WorkspaceLeaf } from "obsidian";
+import { VIEW_TYPE_TERMINAL } from "@/constants";
+import { DEFAULT_SETTINGS } from "@/settings";
+import type TerminalPlugin from "@/main";
+import { TerminalView } from "./terminal-view";
+import { FloatingLeafHost, FloatingSplit, blurWithin } from "./floating-leaf";
+
+/** Matches the slide transition in main.css */
+const SLIDE_DURATION_MS = 150;
+
+const MIN_HEIGHT_PERCENT = 15;
+const MAX_HEIGHT_PERCENT = 90;
+
+/**
+ * Quake-style terminal that slides down from the top of the window
+ *
+ * The panel holds a regular TerminalView in a leaf that is not part of
+ * the layout, so renderers, keyboard scope and menus work as in any other
+ * terminal. Hiding only slides the panel away; the shell keeps running
+ * until the plugin unloads or the terminal is closed from its menu.
+ */
+export class DropdownTerminal {
+	private plugin: TerminalPlugin;
+	private host: FloatingLeafHost;
+	private panelEl: HTMLElement | null = null;
+	private split: FloatingSplit | null = null;
+	private leaf: WorkspaceLeaf | null = null;
+	// Leaf to give focus back to when the panel hides
+	private previousLeaf: WorkspaceLeaf | null = null;
+	private visible = false;
+
+	constructor(plugin: TerminalPlugin, host: FloatingLeafHost) {
+		this.plugin = plugin;
+		this.host = host;
+	}
+
+	/**
+	 * Terminal shown in the panel, if it has been opened and not closed
+	 */
+	get view(): TerminalView | null {
+		const view = this.leaf?.view;
+		return view instanceof TerminalView ? view : null;
+	}
+
+	get isVisible(): boolean {
+		return this.visible;
+	}
+
+	async toggle(): Promise<void> {
+		if (this.visible) {
+			this.hide();
+		} else {
+			await this.show();
+		}
+	}
+
+	async show(): Promise<void> {
+		if (this.visible) {
+			this.view?.focus();
+			return;
+		}
+
+		const { workspace } = this.plugin.app;
+		this.previousLeaf = workspace.getMostRecentLeaf();
+
+		const panelEl = this.ensurePanel();
+		const view = this.view ?? (await this.openView());
+
+		this.visible = true;
+		this.applyHeight();
+		panelEl.addClass("is-open");
+
+		workspace.setActiveLeaf(view.leaf);
+		view.focus();
+		// Fit once the panel has its final size
+		window.setTimeout(() => {
+			if (this.visible) this.view?.resize();
+		}, SLIDE_DURATION_MS);
+	}
+
+	hide(): void {
+		if (!this.panelEl) return;
+
+		blurWithin(this.panelEl);
+
+		this.visible = false;
+		this.panelEl.removeClass("is-open");
+
+		const previous = this.previousLeaf;
+		this.previousLeaf = null;
+		if (previous && previous !== this.leaf && previous.view) {
+			this.plugin.app.workspace.setActiveLeaf(previous, { focus: true });
+		}
+	}
+
+	/**
+	 * Apply the height setting (percentage of the window)
+	 */
+	applyHeight(): void {
+		const percent =
+			this.plugin.settings?.dropdownHeight ??
+			DEFAULT_SETTINGS.dropdownHeight;
+		this.panelEl?.style.setProperty(
+			"--terminal-dropdown-height",
+			`${clampHeight(percent)}vh`,
+		);
+	}
+
+	/**
+	 * Close the terminal and remove the panel
+	 */
+	destroy(): void {
+		this.visible = false;
+		this.leaf?.detach();
+		this.leaf = null;
+		this.split = null;
+		this.panelEl?.remove();
+		this.panelEl = null;
+	}
+
+	private ensurePanel(): HTMLElement {
+		if (this.panelEl) return this.panelEl;
+
+		const panelEl = document.body.createDiv({ cls: "terminal-dropdown" });
+
+		this.split = this.host.createSplit(panelEl);
+
+		const handleEl = panelEl.createDiv({
+			cls: "terminal-dropdown-handle",
+			attr: { "aria-label": "Drag to resize" },
+		});
+		handleEl.addEventListener("mousedown", (evt) => this.startResize(evt));
+
+		this.panelEl = panelEl;
+		return panelEl;
+	}
+
+	private async openView(): Promise<TerminalView> {
+		const split = this.split;
+		if (!split) {
+			throw new Error("Drop-down panel is not created");
+		}
+
+		// A closed terminal leaves an empty split; start a new leaf
+		this.leaf?.detach();
+		this.leaf = this.host.createLeaf(split);
+		await this.leaf.setViewState({
+			type: VIEW_TYPE_TERMINAL,
+			active: false,
+		});
+
+		const view = this.view;
+		if (!view) {
+			throw new Error("Drop-down terminal failed to open");
+		}
+		return view;
+	}
+
+	/**
+	 * Drag the bottom edge to change the height, saved on release
+	 */
+	private startResize(evt: MouseEvent): void {
+		evt.preventDefault();
+		const panelEl = this.panelEl;
+		if (!panelEl) return;
+		panelEl.addClass("is-resizing");
+		// The panel may be in a pop-out window
+		const { doc, win } = evt;
+
+		const onMove = (moveEvt: MouseEvent) => {
+			const percent = clampHeight(
+				(moveEvt.clientY / win.innerHeight) * 100,
+			);
+			panelEl.style.setProperty(
+				"--terminal-dropdown-height",
+				`${percent}vh`,
+			);
+			this.view?.resize();
+		};
+
+		const onUp = (upEvt: MouseEvent) => {
+			doc.removeEventListener("mousemove", onMove);
+			doc.removeEventListener("mouseup", onUp);
+			panelEl.removeClass("is-resizing");
+
+			if (this.plugin.settings) {
+				this.plugin.settings.dropdownHeight = Math.round(
+					clampHeight((upEvt.clientY / win.innerHeight) * 100),
+				);
+				void this.plugin.saveSettings();
+			}
+		};
+
+		doc.addEventListener("mousemove", onMove);
+		doc.addEventListener("mouseup", onUp);
+	}
+}
+
+function clampHeight(percent: number): number {
+	return Math.min(MAX_HEIGHT_PERCENT, Math.max(MIN_HEIGHT_PERCENT, percent));
+}
@@ -0,0 +1,85 @@
+import {
+	Workspace,
+	WorkspaceContainer,
+	WorkspaceItem,
+	WorkspaceLeaf,
+	WorkspaceSplit,
+} from "obsidian";
+
+/**
+ * Internal workspace API for hosting leaves outside the layout
+ * (the same mechanism Obsidian uses for hover popovers)
+ */
+export interface FloatingSplit extends WorkspaceSplit {
+	containerEl: HTMLElement;
+	getRoot(): WorkspaceItem;
+	getContainer(): WorkspaceContainer;
+}
+
+interface FloatingWorkspace extends Workspace {
+	createLeafInParent(parent: WorkspaceSplit, index: number): WorkspaceLeaf;
+}
+
+type FloatingSplitConstructor = new (
+	workspace: Workspace,
+	direction: "vertical" | "horizontal",
+) => FloatingSplit;
+
+/**
+ * Leaves outside the layout, built on private workspace APIs
+ */
+export interface FloatingLeafHost {
+	/** Element of the main area split */
+	rootEl: HTMLElement;
+	/**
+	 * Create a split that is not part of the saved layout and mount it
+	 * Leaves in it behave like main area leaves (focus, hotkeys, menus)
+	 */
+	createSplit(parentEl: HTMLElement): FloatingSplit;
+	/** Add an empty leaf to a floating split */
+	createLeaf(split: FloatingSplit): WorkspaceLeaf;
+}
+
+/**
+ * Floating leaf support, or null when this Obsidian version lacks the
+ * private APIs it needs; callers then open a regular tab
+ */
+export function getFloatingLeafHost(
+	workspace: Workspace,
+): FloatingLeafHost | null {
+	const floatingWorkspace = workspace as Partial<FloatingWorkspace>;
+	const rootEl = (workspace.rootSplit as Partial<FloatingSplit> | undefined)
+		?.containerEl;
+	if (
+		typeof WorkspaceSplit !== "function" ||
+		typeof floatingWorkspace.createLeafInParent !== "function" ||
+		!(rootEl instanceof HTMLElement)
+	) {
+		return null;
+	}
+
+	const Split = WorkspaceSplit as unknown as FloatingSplitConstructor;
+	return {
+		rootEl,
+		createSplit: (parentEl) => {
+			const split = new Split(workspace, "vertical");
+			split.getRoot = () => workspace.rootSplit;
+			split.getContainer = () => workspace.rootSplit;
+			parentEl.appendChild(split.containerEl);
+			return split;
+		},
+		createLeaf: (split) =>
+			(workspace as FloatingWorkspace).createLeafInParent(split, 0),
+	};
+}
+
+/**
+ * Blur the focused element if it is inside an element
+ * Blurring a terminal pops its keyboard scope (see setupKeyboardHandlers)
+ */
+export function blurWithin(el: HTMLElement): void {
+	const active = activeDocument.activeElement;
+	if (active instanceof HTMLElement && el.contains(active)) {
+		active.blur();
+	}
+}
@@ -1,2 +1,8 @@
 // Views export
 export * from "./terminal-view";
+export * from "./session-manager-view";
+export * from "./cast-player";
+export * from "./cast-player-view";
+export * from "./dropdown-terminal";
+export * from "./terminal-dock";
+export * from "./floating-leaf";
@@ -0,0 +1,300 @@
+import { ItemView, Menu, Notice, WorkspaceLeaf, setIcon } from "obsidian";
+import type { TerminalSession } from "@/types";
+import {
+	VIEW_TYPE_TERMINAL_SESSIONS,
+	TERMINAL_SESSIONS_DISPLAY_TEXT,
+} from "@/constants";
+import { PromptModal } from "@/modals";
+import type TerminalPlugin from "@/main";
+import { TerminalView, discardDetachedSession } from "./terminal-view";
+
+/**
+ * Side panel listing every terminal session owned by TerminalManager
+ *
+ * Shows PID, shell, cwd and state for each session and offers focus,
+ * rename, restart, kill and duplicate actions. Re-renders whenever the
+ * manager reports a change (spawn, exit, attach, detach, rename).
+ */
+export class TerminalSessionsView extends ItemView {
+	plugin: TerminalPlugin;
+
+	private listEl!: HTMLElement;
+	private changeSubscription: { dispose(): void } | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: TerminalPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_TERMINAL_SESSIONS;
+	}
+
+	getDisplayText(): string {
+		return TERMINAL_SESSIONS_DISPLAY_TEXT;
+	}
+
+	getIcon(): string {
+		return "square-terminal";
+	}
+
+	async onOpen(): Promise<void> {
+		this.contentEl.empty();
+		this.contentEl.addClass("terminal-sessions-view");
+
+		this.addAction("plus", "New terminal", () => {
+			this.plugin.openTerminal();
+		});
+
+		this.listEl = this.contentEl.createDiv({
+			cls: "terminal-sessions-list",
+		});
+
+		this.changeSubscription =
+			this.plugin.terminalManager.onSessionsChanged(() => this.render());
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.changeSubscription?.dispose();
+		this.changeSubscription = null;
+	}
+
+	/**
+	 * Rebuild the session list
+	 */
+	private render(): void {
+		if (!this.listEl) return;
+		this.listEl.empty();
+
+		const sessions = Array.from(
+			this.plugin.terminalManager.terminals.values(),
+		);
+
+		if (sessions.length === 0) {
+			this.listEl.createDiv({
+				cls: "terminal-sessions-empty",
+				text: "No terminal sessions",
+			});
+			return;
+		}
+
+		for (const session of sessions) {
+			this.renderSession(session);
+		}
+	}
+
+	/**
+	 * Render a single session row
+	 */
+	private renderSession(session: TerminalSession): void {
+		const view = this.getSessionView(session);
+		const row = this.listEl.createDiv({ cls: "terminal-session-item" });
+
+		const header = row.createDiv({ cls: "terminal-session-header" });
+		header.createSpan({
+			cls: "terminal-session-name",
+			text: view?.getDisplayText() ?? session.name ?? session.id,
+		});
+
+		const state = this.getSessionState(session);
+		header.createSpan({
+			cls: `terminal-session-state is-${state.key}`,
+			text: state.label,
+		});
+
+		const meta = row.createDiv({ cls: "terminal-session-meta" });
+		meta.createDiv({
+			text: `PID ${session.ptyProcess?.pid ?? "-"} · ${session.shell ?? "unknown shell"}`,
+		});
+		meta.createDiv({
+			cls: "terminal-session-cwd",
+			text: this.getSessionCwd(session),
+		});
+
+		const actions = row.createDiv({ cls: "terminal-session-actions" });
+		this.addRowAction(actions, "eye", "Focus", () => this.focusSession(session));
+		this.addRowAction(actions, "pencil", "Rename", () =>
+			this.renameSession(session),
+		);
+		this.addRowAction(actions, "refresh-cw", "Restart", () =>
+			this.restartSession(session),
+		);
+		this.addRowAction(actions, "copy-plus", "Duplicate", () =>
+			this.duplicateSession(session),
+		);
+		this.addRowAction(actions, "x", "Kill", () => this.killSession(session));
+
+		row.addEventListener("dblclick", () => this.focusSession(session));
+		row.addEventListener("contextmenu", (evt: MouseEvent) => {
+			evt.preventDefault();
+			this.showSessionMenu(session, evt);
+		});
+	}
+
+	/**
+	 * Add an icon button to a session row
+	 */
+	private addRowAction(
+		containerEl: HTMLElement,
+		icon: string,
+		label: string,
+		onClick: () => void,
+	): void {
+		const btn = containerEl.createEl("button", {
+			cls: "clickable-icon",
+			attr: { "aria-label": label },
+		});
+		setIcon(btn, icon);
+		btn.addEventListener("click", (evt: MouseEvent) => {
+			evt.stopPropagation();
+			onClick();
+		});
+	}
+
+	/**
+	 * Context menu with the same actions as the row buttons
+	 */
+	private showSessionMenu(session: TerminalSession, evt: MouseEvent): void {
+		const menu = new Menu();
+		menu.addItem((item) =>
+			item
+				.setTitle("Focus")
+				.setIcon("eye")
+				.onClick(() => this.focusSession(session)),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Rename")
+				.setIcon("pencil")
+				.onClick(() => this.renameSession(session)),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Restart")
+				.setIcon("refresh-cw")
+				.onClick(() => this.restartSession(session)),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Duplicate")
+				.setIcon("copy-plus")
+				.onClick(() => this.duplicateSession(session)),
+		);
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item
+				.setTitle("Kill")
+				.setIcon("x")
+				.setWarning(true)
+				.onClick(() => this.killSession(session)),
+		);
+		menu.showAtMouseEvent(evt);
+	}
+
+	/**
+	 * Get the concrete view showing a session, if any
+	 */
+	private getSessionView(session: TerminalSession): TerminalView | null {
+		return session.view instanceof TerminalView ? session.view : null;
+	}
+
+	private getSessionState(session: TerminalSession): {
+		key: "active" | "detached" | "exited";
+		label: string;
+	} {
+		if (!session.isActive) {
+			return {
+				key: "exited",
+				label:
+					session.exitCode !== undefined
+						? `Exited (${session.exitCode})`
+						: "Exited",
+			};
+		}
+		if (!session.view) {
+			return { key: "detached", label: "Detached" };
+		}
+		return { key: "active", label: "Active" };
+	}
+
+	private getSessionCwd(session: TerminalSession): string {
+		return (
+			this.getSessionView(session)?.getWorkingDirectory() ||
+			session.cwd ||
+			session.initialCwd ||
+			""
+		);
+	}
+
+	private focusSession(session: TerminalSession): void {
+		const view = this.getSessionView(session);
+		if (view) {
+			void this.plugin.revealTerminalView(view);
+			this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+			view.focus();
+			return;
+		}
+
+		this.plugin.openSessionView(session).catch((error) => {
+			console.error("Failed to show session:", error);
+		});
+	}
+
+	private renameSession(session: TerminalSession): void {
+		new PromptModal(this.app, {
+			title: "Rename terminal",
+			value: session.name ?? "",
+			placeholder: "Leave empty to use the automatic title",
+			onSubmit: (name) => {
+				this.plugin.terminalManager.renameTerminal(session.id, name);
+				this.getSessionView(session)?.updateTabTitle();
+			},
+		}).open();
+	}
+
+	private async restartSession(session: TerminalSession): Promise<void> {
+		try {
+			const view = this.getSessionView(session);
+			if (view) {
+				await view.restartTerminal();
+			} else {
+				await this.plugin.terminalManager.restartTerminal(session.id);
+			}
+		} catch (error) {
+			console.error("Failed to restart session:", error);
+			new Notice("Failed to restart terminal session");
+		}
+	}
+
+	private async duplicateSession(session: TerminalSession): Promise<void> {
+		try {
+			const duplicate =
+				await this.plugin.terminalManager.createTerminalWithAvailableShell(
+					undefined,
+					{
+						...session.profile,
+						shell: session.shell,
+						cwd: this.getSessionCwd(session),
+					},
+				);
+			duplicate.profileId = session.profileId;
+			await this.plugin.openSessionView(duplicate);
+		} catch (error) {
+			console.error("Failed to duplicate session:", error);
+			new Notice("Failed to duplicate terminal session");
+		}
+	}
+
+	private killSession(session: TerminalSession): void {
+		const view = this.getSessionView(session);
+		if (view) {
+			// Closing the pane destroys the session
+			view.leaf.detach();
+			return;
+		}
+
+		discardDetachedSession(session.id);
+		this.plugin.terminalManager.destroyTerminal(session.id);
+	}
+}
@@ -0,0 +1,442 @@
+import { WorkspaceLeaf, debounce, setIcon } from "obsidian";
+import { DEFAULT_SETTINGS, type TerminalDockState } from "@/settings";
+import { VIEW_TYPE_TERMINAL } from "@/constants";
+import type { TerminalViewState } from "@/types";
+import type TerminalPlugin from "@/main";
+import { TerminalView } from "./terminal-view";
+import { FloatingLeafHost, FloatingSplit, blurWithin } from "./floating-leaf";
+
+const MIN_DOCK_HEIGHT = 120;
+
+/**
+ * Leaf with the tab title element TerminalView.updateTabTitle() writes to
+ */
+interface DockLeaf extends WorkspaceLeaf {
+	tabHeaderInnerTitleEl?: HTMLElement;
+}
+
+interface DockTab {
+	/** Holds the tab's terminal and any splits made from it */
+	split: FloatingSplit;
+	leaf: DockLeaf;
+	tabEl: HTMLElement;
+}
+
+/**
+ * Terminal panel along the bottom of the main area, like VS Code's
+ *
+ * Each tab is a floating split outside the saved layout, so splitting a
+ * docked terminal keeps the new pane inside the same tab. The panel
+ * shrinks the main area instead of covering it, and its height is saved
+ * when the top edge is dragged. Hiding keeps every session running.
+ *
+ * The workspace layout does not know the dock, so its tabs and whether it
+ * is shown are saved in the plugin data and restored on the next start.
+ */
+export class TerminalDock {
+	private plugin: TerminalPlugin;
+	private host: FloatingLeafHost;
+	private dockEl: HTMLElement | null = null;
+	private tabsEl: HTMLElement | null = null;
+	private bodyEl: HTMLElement | null = null;
+	private tabs: DockTab[] = [];
+	private activeTab: DockTab | null = null;
+	private visible = false;
+	// Leaf to give focus back to when the dock hides
+	private previousLeaf: WorkspaceLeaf | null = null;
+	private sessionsSubscription: { dispose(): void } | null = null;
+	// Saved tabs are being reopened; don't save the half-built dock
+	private restoring = false;
+
+	constructor(plugin: TerminalPlugin, host: FloatingLeafHost) {
+		this.plugin = plugin;
+		this.host = host;
+	}
+
+	get isVisible(): boolean {
+		return this.visible;
+	}
+
+	/**
+	 * Add a tab and return its empty leaf; the caller opens a view in it
+	 */
+	createLeaf(): WorkspaceLeaf {
+		const dockEl = this.ensureDock();
+		const bodyEl = this.bodyEl ?? dockEl;
+
+		const split = this.host.createSplit(bodyEl);
+		const leaf: DockLeaf = this.host.createLeaf(split);
+
+		const tabEl = (this.tabsEl ?? dockEl).createDiv({
+			cls: "terminal-dock-tab",
+		});
+		setIcon(
+			tabEl.createSpan({ cls: "terminal-dock-tab-icon" }),
+			"terminal",
+		);
+		leaf.tabHeaderInnerTitleEl = tabEl.createSpan({
+			cls: "terminal-dock-tab-title",
+			text: "Terminal",
+		});
+		const closeEl = tabEl.createSpan({
+			cls: "terminal-dock-tab-close clickable-icon",
+			attr: { "aria-label": "Close" },
+		});
+		setIcon(closeEl, "x");
+
+		const tab: DockTab = { split, leaf, tabEl };
+		tabEl.addEventListener("click", () => this.selectTab(tab, true));
+		tabEl.addEventListener("auxclick", (evt) => {
+			if (evt.button === 1) this.closeTab(tab);
+		});
+		closeEl.addEventListener("click", (evt) => {
+			evt.stopPropagation();
+			this.closeTab(tab);
+		});
+
+		this.tabs.push(tab);
+		this.selectTab(tab, false);
+		return leaf;
+	}
+
+	/**
+	 * Tabs and visibility to save, null while saved tabs are reopened
+	 * Terminals split inside a tab are saved as tabs of their own
+	 */
+	getState(): TerminalDockState | null {
+		if (this.restoring) return null;
+
+		const terminals: TerminalViewState[] = [];
+		let activeTab = 0;
+		for (const tab of this.tabs) {
+			if (tab === this.activeTab) activeTab = terminals.length;
+			for (const view of this.getTabViews(tab)) {
+				terminals.push(view.getState() as TerminalViewState);
+			}
+		}
+		return { visible: this.visible, activeTab, terminals };
+	}
+
+	/**
+	 * Reopen the saved tabs, each with a fresh shell under its snapshot
+	 */
+	async restore(state: TerminalDockState): Promise<void> {
+		this.restoring = true;
+		const restored: (DockTab | null)[] = [];
+		try {
+			for (const terminal of state.terminals) {
+				const leaf = this.createLeaf();
+				const tab = this.tabs[this.tabs.length - 1];
+				try {
+					await leaf.setViewState({
+						type: VIEW_TYPE_TERMINAL,
+						state: { ...terminal },
+					});
+					restored.push(tab);
+				} catch (error) {
+					console.error("Failed to restore docked terminal:", error);
+					this.closeTab(tab);
+					restored.push(null);
+				}
+			}
+		} finally {
+			this.restoring = false;
+		}
+
+		const saved = restored[state.activeTab];
+		const active =
+			saved && this.tabs.includes(saved)
+				? saved
+				: this.tabs[this.tabs.length - 1];
+		if (!active) return;
+		this.selectTab(active, false);
+		if (state.visible) this.show();
+	}
+
+	/**
+	 * Whether a leaf lives in one of the dock's tabs
+	 */
+	contains(leaf: WorkspaceLeaf): boolean {
+		return this.findTab(leaf) !== null;
+	}
+
+	/**
+	 * Show the dock with the tab holding a leaf
+	 */
+	reveal(leaf: WorkspaceLeaf): void {
+		const tab = this.findTab(leaf);
+		if (!tab) return;
+		this.show();
+		this.selectTab(tab, false);
+	}
+
+	/**
+	 * Save the tabs once a burst of changes is over
+	 */
+	requestSave = debounce(
+		() => {
+			if (!this.restoring) void this.plugin.saveDockState();
+		},
+		1000,
+		true,
+	);
+
+	async toggle(): Promise<void> {
+		if (this.visible) {
+			this.hide();
+		} else if (this.tabs.length === 0) {
+			await this.plugin.openTerminal("dock");
+		} else {
+			this.show();
+			this.focusActive();
+		}
+	}
+
+	show(): void {
+		if (this.visible) return;
+		const dockEl = this.ensureDock();
+		this.previousLeaf = this.plugin.app.workspace.getMostRecentLeaf();
+
+		this.visible = true;
+		this.applyHeight();
+		dockEl.removeClass("is-hidden");
+		this.getRootEl().addClass("terminal-has-dock");
+		this.resizeActive();
+		this.requestSave();
+	}
+
+	hide(): void {
+		if (!this.dockEl || !this.visible) return;
+		blurWithin(this.dockEl);
+
+		this.visible = false;
+		this.dockEl.addClass("is-hidden");
+		this.getRootEl().removeClass("terminal-has-dock");
+		this.requestSave();
+
+		const previous = this.previousLeaf;
+		this.previousLeaf = null;
+		if (previous?.view && !this.contains(previous)) {
+			this.plugin.app.workspace.setActiveLeaf(previous, { focus: true });
+		}
+	}
+
+	/**
+	 * Apply the saved height (pixels)
+	 */
+	applyHeight(): void {
+		const height =
+			this.plugin.settings?.dockHeight ?? DEFAULT_SETTINGS.dockHeight;
+		this.getRootEl().style.setProperty(
+			"--terminal-dock-height",
+			`${Math.max(MIN_DOCK_HEIGHT, height)}px`,
+		);
+	}
+
+	/**
+	 * Close every docked terminal and remove the dock
+	 */
+	destroy(): void {
+		this.requestSave.cancel();
+		this.sessionsSubscription?.dispose();
+		this.sessionsSubscription = null;
+		for (const tab of this.tabs) {
+			for (const view of this.getTabViews(tab)) {
+				view.leaf.detach();
+			}
+		}
+		this.tabs = [];
+		this.activeTab = null;
+		this.visible = false;
+
+		const rootEl = this.getRootEl();
+		rootEl.removeClass("terminal-has-dock");
+		rootEl.style.removeProperty("--terminal-dock-height");
+		this.dockEl?.remove();
+		this.dockEl = null;
+	}
+
+	private ensureDock(): HTMLElement {
+		if (this.dockEl) return this.dockEl;
+
+		const dockEl = this.getRootEl().createDiv({
+			cls: "terminal-dock is-hidden",
+		});
+
+		const handleEl = dockEl.createDiv({
+			cls: "terminal-dock-handle",
+			attr: { "aria-label": "Drag to resize" },
+		});
+		handleEl.addEventListener("mousedown", (evt) => this.startResize(evt));
+
+		const headerEl = dockEl.createDiv({ cls: "terminal-dock-header" });
+		this.tabsEl = headerEl.createDiv({ cls: "terminal-dock-tabs" });
+
+		const actionsEl = headerEl.createDiv({
+			cls: "terminal-dock-actions",
+		});
+		const newEl = actionsEl.createDiv({
+			cls: "clickable-icon",
+			attr: { "aria-label": "New terminal" },
+		});
+		setIcon(newEl, "plus");
+		newEl.addEventListener("click", () => {
+			void this.plugin.openTerminal("dock");
+		});
+		const hideEl = actionsEl.createDiv({
+			cls: "clickable-icon",
+			attr: { "aria-label": "Hide panel" },
+		});
+		setIcon(hideEl, "chevron-down");
+		hideEl.addEventListener("click", () => this.hide());
+
+		this.bodyEl = dockEl.createDiv({ cls: "terminal-dock-body" });
+
+		// A docked terminal can also be closed or detached from its own
+		// menu or the API; drop tabs whose leaf is gone
+		this.sessionsSubscription =
+			this.plugin.terminalManager.onSessionsChanged(() => {
+				window.setTimeout(() => this.pruneTabs(), 0);
+			});
+
+		this.dockEl = dockEl;
+		return dockEl;
+	}
+
+	/**
+	 * The main area split the dock is attached to
+	 */
+	private getRootEl(): HTMLElement {
+		return this.host.rootEl;
+	}
+
+	private findTab(leaf: WorkspaceLeaf): DockTab | null {
+		const view = leaf.view;
+		return (
+			this.tabs.find(
+				(tab) =>
+					tab.leaf === leaf ||
+					(view instanceof TerminalView &&
+						tab.split.containerEl.contains(view.containerEl)),
+			) ?? null
+		);
+	}
+
+	private selectTab(tab: DockTab, focus: boolean): void {
+		this.activeTab = tab;
+		for (const other of this.tabs) {
+			const isActive = other === tab;
+			other.tabEl.toggleClass("is-active", isActive);
+			other.split.containerEl.toggleClass("is-hidden", !isActive);
+		}
+		this.resizeActive();
+		if (focus) this.focusActive();
+		this.requestSave();
+	}
+
+	private closeTab(tab: DockTab): void {
+		// Detaching ends the session, which prunes the tab
+		tab.leaf.detach();
+		this.pruneTabs();
+	}
+
+	/**
+	 * Remove tabs whose terminal has been closed
+	 */
+	private pruneTabs(): void {
+		const closed = this.tabs.filter(
+			(tab) => !tab.leaf.view?.containerEl.isConnected,
+		);
+		if (closed.length === 0) return;
+
+		for (const tab of closed) {
+			// Terminals split off the closed one go with its tab
+			for (const view of this.getTabViews(tab)) {
+				view.leaf.detach();
+			}
+			tab.tabEl.remove();
+			tab.split.containerEl.remove();
+		}
+		this.tabs = this.tabs.filter((tab) => !closed.includes(tab));
+		this.requestSave();
+
+		if (this.activeTab && closed.includes(this.activeTab)) {
+			const next = this.tabs[this.tabs.length - 1];
+			if (next) {
+				this.selectTab(next, this.visible);
+			} else {
+				this.activeTab = null;
+				this.hide();
+			}
+		}
+	}
+
+	private focusActive(): void {
+		const view = this.activeTab?.leaf.view;
+		if (!(view instanceof TerminalView)) return;
+		this.plugin.app.workspace.setActiveLeaf(view.leaf);
+		view.focus();
+	}
+
+	/**
+	 * Fit every terminal of the active tab to its new size
+	 */
+	private resizeActive(): void {
+		const tab = this.activeTab;
+		if (!this.visible || !tab) return;
+		window.requestAnimationFrame(() => {
+			for (const view of this.getTabViews(tab)) {
+				view.resize();
+			}
+		});
+	}
+
+	/**
+	 * Terminals in a tab, including those split off its first one
+	 */
+	private getTabViews(tab: DockTab): TerminalView[] {
+		return this.plugin
+			.getTerminalViews()
+			.filter((view) => tab.split.containerEl.contains(view.containerEl));
+	}
+
+	/**
+	 * Drag the top edge to change the height, saved on release
+	 */
+	private startResize(evt: MouseEvent): void {
+		evt.preventDefault();
+		const rootEl = this.getRootEl();
+		// The dock may be in a pop-out window
+		const doc = evt.doc;
+		const startY = evt.clientY;
+		const startHeight =
+			this.plugin.settings?.dockHeight ?? DEFAULT_SETTINGS.dockHeight;
+		// Leave room for at least a sliver of the main area
+		const maxHeight = rootEl.clientHeight - MIN_DOCK_HEIGHT;
+		let height = startHeight;
+
+		const onMove = (moveEvt: MouseEvent) => {
+			height = Math.min(
+				maxHeight,
+				Math.max(
+					MIN_DOCK_HEIGHT,
+					startHeight + startY - moveEvt.clientY,
+				),
+			);
+			rootEl.style.setProperty("--terminal-dock-height", `${height}px`);
+			this.resizeActive();
+		};
+
+		const onUp = () => {
+			doc.removeEventListener("mousemove", onMove);
+			doc.removeEventListener("mouseup", onUp);
+			if (this.plugin.settings) {
+				this.plugin.settings.dockHeight = Math.round(height);
+				void this.plugin.saveSettings();
+			}
+		};
+
+		doc.addEventListener("mousemove", onMove);
+		doc.addEventListener("mouseup", onUp);
+	}
+}
@@ -1,4 +1,4 @@
-import { Terminal as XTerminal } from "@xterm/xterm";
+import { Terminal as XTerminal, type FontWeight } from "@xterm/xterm";
 import { FitAddon as XTermFitAddon } from "@xterm/addon-fit";
 import { WebLinksAddon } from "@xterm/addon-web-links";
 import { ClipboardAddon } from "@xterm/addon-clipboard";
@@ -6,22 +6,75 @@ import { ImageAddon } from "@xterm/addon-image";
 import { SearchAddon } from "@xterm/addon-search";
 import { SerializeAddon } from "@xterm/addon-serialize";
 import { Unicode11Addon } from "@xterm/addon-unicode11";
+import { LigaturesAddon } from "@xterm/addon-ligatures";
 import { WebglAddon } from "@xterm/addon-webgl";
 import {
 	init as initGhostty,
 	Terminal as GhosttyTerminal,
 	FitAddon as GhosttyFitAddon,
 } from "ghostty-web";
-import { WorkspaceLeaf, Menu, Scope } from "obsidian";
+import {
+	WorkspaceLeaf,
+	Menu,
+	Notice,
+	Scope,
+	ViewStateResult,
+	normalizePath,
+	setIcon,
+} from "obsidian";
 import {
 	GhosttyLinkDetector,
 	GhosttyObsidianLinkProvider,
 	ObsidianLinkHighlighter,
 	ObsidianLinkProvider,
 } from "@/core/obsidian-link-provider";
+import {
+	ShellIntegrationParser,
+	type ShellIntegrationEvent,
+} from "@/core/shell-integration";
+import { AsciicastRecorder } from "@/core/asciicast";
+import { GhosttyRowTracker } from "@/core/row-markers";
+import {
+	TERMINAL_KEY_ACTION_IDS,
+	matchesKeybinding,
+	type TerminalKeyAction,
+} from "@/core/keybindings";
+import {
+	PASTE_WARNING_MESSAGES,
+	getPasteWarnings,
+	preparePaste,
+	type PasteOptions,
+} from "@/core/paste";
+import { ConfirmModal } from "@/modals";
+import { getColorAlpha, withAlpha } from "@/core/theme-colors";
+import { toHexColor } from "@/core/theme-formats";
+import { buildFontFamily, findLigatureRanges } from "@/core/fonts";
+import {
+	GhosttyCommandDecorator,
+	XtermCommandDecorator,
+	type CommandDecorator,
+	type CommandDecorationColors,
+} from "@/core/command-decorations";
+import {
+	GhosttySearcher,
+	XtermSearcher,
+	buildSearchPattern,
+	formatSearchResults,
+	type SearchHighlightColors,
+	type SearchResults,
+	type TerminalSearcher,
+	type TerminalSearchOptions,
+} from "@/core/terminal-search";
 import {
 	TerminalView as BaseTerminalView,
 	TerminalSession,
+	RowMarker,
+	ScrollbackExportFormat,
+	ScrollbackExportRange,
+	ShellCommand,
+	TerminalState,
+	TerminalViewState,
+	TerminalReplay,
 	TerminalPluginError,
 	TerminalErrorType,
 	Terminal,
@@ -30,9 +83,15 @@ import {
 	VIEW_TYPE_TERMINAL,
 	TERMINAL_VIEW_DISPLAY_TEXT,
 	DEFAULT_TERMINAL_DIMENSIONS,
+	SHELL_COMMAND_HISTORY_LIMIT,
+	PERSISTED_SCROLLBACK_LINES,
 } from "@/constants";
 import type TerminalPlugin from "@/main";
-import { DEFAULT_SETTINGS } from "@/settings";
+import {
+	DEFAULT_SETTINGS,
+	type TerminalProfile,
+	type TerminalRenderer,
+} from "@/settings";
 
 // Import xterm.js CSS as string for Shadow DOM injection
 import xtermCss from "@xterm/xterm/css/xterm.css?inline";
@@ -55,6 +114,28 @@ export function resetGhosttyState(): void {
 	console.log("✅ Ghostty state reset for hot reload");
 }
 
+/**
+ * Drop the off-screen terminal of a detached session (e.g. when it is killed)
+ */
+export function discardDetachedSession(sessionId: string): void {
+	const session = shellSessions.get(`terminal-${sessionId}`);
+	if (!session) return;
+
+	shellSessions.delete(`terminal-${sessionId}`);
+	for (const disposable of session.disposables) {
+		try {
+			disposable.dispose();
+		} catch {
+			// Ignore disposal errors
+		}
+	}
+	try {
+		session.terminal.dispose();
+	} catch {
+		// Ignore disposal errors
+	}
+}
+
 /**
  * Shadow DOM styles for terminal
  * Uses CSS variables from Obsidian for theming
@@ -260,16 +341,31 @@ ${xtermCss}
 }
 `;
 
-// Global store for shell sessions to persist across tab switches
+/** Parts of the ghostty-web canvas renderer the view adjusts */
+interface GhosttyRenderer {
+	ctx: CanvasRenderingContext2D;
+	measureFont(): { width: number; height: number; baseline: number };
+	remeasureFont(): void;
+}
+
+/** Renderer background when the container paints a see-through one */
+const TRANSPARENT = "rgba(0, 0, 0, 0)";
+
+/** Font sizes a zoomed terminal stays within */
+const MIN_FONT_SIZE = 6;
+const MAX_FONT_SIZE = 48;
+
+/** Ctrl+scroll distance of one zoom step (one mouse wheel notch) */
+const ZOOM_WHEEL_STEP = 50;
+
+// Global store for detached sessions - the off-screen terminal keeps receiving
+// PTY output until a view reattaches and replays its buffer
 const shellSessions = new Map<string, ShellSessionData>();
 
 interface ShellSessionData {
 	terminal: Terminal;
-	fitAddon: FitAddon;
-	shadowRoot: ShadowRoot;
-	shadowContainer: HTMLElement;
-	isConnected: boolean;
 	disposables: Array<{ dispose(): void }>;
+	serializeAddon?: SerializeAddon;
 }
 
 /**
@@ -284,12 +380,25 @@ export class TerminalView extends BaseTerminalView {
 	private shadowHost: HTMLElement | null = null;
 	private shadowRoot: ShadowRoot | null = null;
 	private shadowContainer: HTMLElement | null = null;
+	private backgroundImageEl: HTMLElement | null = null;
+	// Set when the Ghostty canvas cannot be made see-through
+	private ghosttyOpaque = false;
+	private ligaturesAddon: LigaturesAddon | null = null;
+	private ligatureJoinerId: number | null = null;
 	private fitAddon!: FitAddon;
 	private webLinksAddon?: WebLinksAddon;
 	private searchAddon?: SearchAddon;
+	private serializeAddon?: SerializeAddon;
 	private searchContainer?: HTMLElement;
 	private searchInput?: HTMLInputElement;
+	private searchCountEl?: HTMLElement;
 	private isSearchVisible = false;
+	private searcher?: TerminalSearcher;
+	private searchOptions: TerminalSearchOptions = {
+		regex: false,
+		caseSensitive: false,
+		wholeWord: false,
+	};
 	private imeTextarea?: HTMLTextAreaElement;
 	private isComposing = false;
 	private ghosttyLinkDetector?: GhosttyLinkDetector;
@@ -303,14 +412,32 @@ export class TerminalView extends BaseTerminalView {
 	private currentTitle = "";
 	private shellName = "";
 	private keyboardScope: Scope | null = null;
+	private lastActivity = Date.now();
+	// Buffer to replay before connecting to the PTY (restore or reattach)
+	private pendingReplay: TerminalReplay | null = null;
+	// Buffer of the last snapshot, cleared when output arrives
+	private snapshotBuffer: string | null = null;
+	private isDetaching = false;
+	// Shell integration (OSC 133 / OSC 7) state
+	private shellParser = new ShellIntegrationParser();
+	private shellCommands: ShellCommand[] = [];
+	private shellCwd: string | null = null;
+	private commandDecorator?: CommandDecorator;
+	// Keeps Ghostty prompt rows right once old lines are dropped
+	private ghosttyRows = new GhosttyRowTracker();
+	private recorder: AsciicastRecorder | null = null;
+	private broadcastBannerEl: HTMLElement | null = null;
+	private sessionsSubscription: { dispose(): void } | null = null;
+	// Per-view font size change (zoom commands, Ctrl+scroll)
+	private fontZoom = 0;
+	private zoomWheelDelta = 0;
 
-	constructor(
-		leaf: WorkspaceLeaf,
-		terminalSession: TerminalSession,
-		plugin: TerminalPlugin,
-	) {
+	/**
+	 * The session is attached later in setState(), which Obsidian calls after
+	 * onOpen() with either a live session ID or a persisted snapshot
+	 */
+	constructor(leaf: WorkspaceLeaf, plugin: TerminalPlugin) {
 		super(leaf);
-		this.terminalSession = terminalSession;
 		this.plugin = plugin;
 	}
 
@@ -319,11 +446,18 @@ export class TerminalView extends BaseTerminalView {
 	}
 
 	getDisplayText(): string {
-		let title = this.currentTitle.trim();
+		// A user-assigned name always wins
+		if (this.terminalSession?.name) {
+			return this.terminalSession.name;
+		}
+
+		// A cwd reported by shell integration beats any title heuristic
+		let title = this.shellCwd ?? this.currentTitle.trim();
 
 		// Check if currentTitle is actually the shell executable path (not a useful cwd)
 		// PowerShell/cmd often set title to their own path, which is not useful
 		const isShellPath =
+			!this.shellCwd &&
 			title &&
 			(title.toLowerCase().includes("powershell") ||
 				title.toLowerCase().includes("cmd.exe") ||
@@ -387,12 +521,76 @@ export class TerminalView extends BaseTerminalView {
 	}
 
 	async onOpen(): Promise<void> {
+		this.terminalViewContainer = this.contentEl.createDiv({
+			cls: "terminal-view-container",
+		});
+
+		// Keep the broadcast banner in step with the group
+		this.sessionsSubscription =
+			this.plugin.terminalManager.onSessionsChanged(() =>
+				this.updateBroadcastBanner(),
+			);
+	}
+
+	/**
+	 * Attach a session once the view state is known
+	 * - sessionId: reuse a live session no other view shows (new terminal,
+	 *   moved leaf, reattach)
+	 * - terminal: spawn a fresh shell and replay the persisted scrollback
+	 * - neither: spawn a fresh default shell
+	 */
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		await super.setState(state, result);
+
+		// Only the first setState attaches a session
+		if (this.hasSession()) return;
+
+		const viewState = (state ?? {}) as TerminalViewState;
+		this.fontZoom = viewState.zoom ?? 0;
+
 		try {
-			this.terminalViewContainer = this.contentEl.createDiv({
-				cls: "terminal-view-container",
-			});
+			const liveSession = viewState.sessionId
+				? this.plugin.terminalManager.getTerminal(viewState.sessionId)
+				: undefined;
+
+			// "Split right" and duplicated tabs copy the state of a view that
+			// still shows the session; they get a shell of their own
+			if (
+				liveSession &&
+				(!liveSession.view || liveSession.view === this)
+			) {
+				this.attachSession(liveSession);
+				this.pendingReplay = viewState.replay ?? null;
+			} else {
+				const snapshot = viewState.terminal;
+				const profile = this.plugin.getProfile(
+					snapshot?.profileId ?? liveSession?.profileId,
+				);
+				const session =
+					await this.plugin.terminalManager.createTerminalWithAvailableShell(
+						undefined,
+						{
+							...profile,
+							shell: snapshot?.shell || profile?.shell,
+							cwd: snapshot?.workingDirectory || profile?.cwd,
+						},
+					);
+				session.profileId = profile?.id;
+				this.attachSession(session);
+
+				if (snapshot && this.plugin.settings?.persistSessions) {
+					const restoredAt = new Date(
+						snapshot.lastActivity,
+					).toLocaleString();
+					this.pendingReplay = {
+						buffer: snapshot.buffer ?? "",
+						banner: `Restored session from ${restoredAt}`,
+					};
+					this.currentTitle = snapshot.title;
+				}
+			}
 
-			// Check for existing session
+			// Check for a detached session waiting to be reattached
 			const sessionKey = this.getSessionKey();
 			const existingSession = shellSessions.get(sessionKey);
 
@@ -403,6 +601,7 @@ export class TerminalView extends BaseTerminalView {
 			}
 
 			this.isInitialized = true;
+			this.updateTabTitle();
 			console.log(
 				`Terminal view opened for session ${this.terminalSession.id}`,
 			);
@@ -415,10 +614,56 @@ export class TerminalView extends BaseTerminalView {
 		}
 	}
 
+	/**
+	 * Persist session ID plus a snapshot of the buffer, cwd, shell and title
+	 */
+	getState(): Record<string, unknown> {
+		const state = super.getState();
+		if (!this.terminalSession) return state;
+
+		const viewState: TerminalViewState = {
+			sessionId: this.terminalSession.id,
+		};
+		if (this.plugin.settings?.persistSessions) {
+			viewState.terminal = this.createSnapshot();
+		}
+		if (this.fontZoom) {
+			viewState.zoom = this.fontZoom;
+		}
+
+		return { ...state, ...viewState };
+	}
+
 	async onClose(): Promise<void> {
+		this.sessionsSubscription?.dispose();
+		this.sessionsSubscription = null;
+
 		try {
-			// Save session for potential restoration
-			this.saveSession();
+			if (!this.terminalSession) return;
+
+			if (this.terminalSession.view === this) {
+				this.terminalSession.view = undefined;
+				this.plugin.terminalManager.notifySessionsChanged();
+			}
+
+			// Keep what was recorded so far
+			void this.stopRecording();
+
+			if (this.isDetaching) {
+				// Keep the PTY running in the background for reattach
+				this.terminalSession.cwd = this.getWorkingDirectory();
+				this.saveSession();
+				console.log(
+					`Terminal view detached from session ${this.terminalSession.id}`,
+				);
+				return;
+			}
+
+			// Closing the pane ends the session
+			this.disposeTerminal();
+			this.plugin.terminalManager.destroyTerminal(
+				this.terminalSession.id,
+			);
 
 			console.log(
 				`Terminal view closed for session ${this.terminalSession.id}`,
@@ -428,6 +673,148 @@ export class TerminalView extends BaseTerminalView {
 		}
 	}
 
+	/**
+	 * Close this pane but keep the shell running as a detached session
+	 */
+	detach(): void {
+		this.isDetaching = true;
+		this.leaf.detach();
+	}
+
+	/**
+	 * Whether a session has been attached via setState()
+	 */
+	private hasSession(): boolean {
+		return !!this.terminalSession;
+	}
+
+	/**
+	 * Bind a session to this view
+	 */
+	private attachSession(session: TerminalSession): void {
+		this.terminalSession = session;
+		session.view = this;
+		this.plugin.terminalManager.notifySessionsChanged();
+	}
+
+	/**
+	 * Capture the current terminal state for workspace persistence
+	 */
+	private createSnapshot(): TerminalState {
+		const session = this.terminalSession;
+
+		return {
+			id: session.id,
+			isActive: session.isActive,
+			title: this.currentTitle,
+			workingDirectory: this.getWorkingDirectory(),
+			shell: session.shell,
+			profileId: session.profileId,
+			processId: session.ptyProcess?.pid ?? 0,
+			createdAt: session.createdAt ?? this.lastActivity,
+			lastActivity: this.lastActivity,
+			dimensions: {
+				cols: this.terminal?.cols ?? DEFAULT_TERMINAL_DIMENSIONS.cols,
+				rows: this.terminal?.rows ?? DEFAULT_TERMINAL_DIMENSIONS.rows,
+			},
+			buffer: this.getSnapshotBuffer(),
+		};
+	}
+
+	/**
+	 * Buffer saved with the view state, at most PERSISTED_SCROLLBACK_LINES
+	 * of scrollback. Obsidian saves the layout often, so it is serialized
+	 * again only after new output
+	 */
+	private getSnapshotBuffer(): string {
+		if (this.snapshotBuffer === null) {
+			this.snapshotBuffer = this.serializeBuffer(
+				this.terminal,
+				this.serializeAddon,
+				PERSISTED_SCROLLBACK_LINES,
+			);
+		}
+		return this.snapshotBuffer;
+	}
+
+	/**
+	 * Serialize scrollback and screen
+	 * xterm.js keeps colors via SerializeAddon, Ghostty falls back to plain text
+	 *
+	 * @param scrollback - Scrollback lines to include, all by default
+	 */
+	private serializeBuffer(
+		terminal: Terminal = this.terminal,
+		serializeAddon: SerializeAddon | undefined = this.serializeAddon,
+		scrollback = this.plugin.settings?.scrollback ??
+			DEFAULT_SETTINGS.scrollback,
+	): string {
+		if (!terminal) return "";
+
+		try {
+			if (terminal instanceof GhosttyTerminal) {
+				const lines = this.extractGhosttyBuffer(terminal);
+				return lines
+					.slice(
+						Math.max(0, lines.length - terminal.rows - scrollback),
+					)
+					.join("\r\n");
+			}
+
+			return serializeAddon?.serialize({ scrollback }) ?? "";
+		} catch (error) {
+			console.warn("Failed to serialize terminal buffer:", error);
+			return "";
+		}
+	}
+
+	/**
+	 * Best-effort working directory
+	 * Shell integration (OSC 7) wins, then a cwd-like window title,
+	 * then the last known or spawn cwd
+	 */
+	getWorkingDirectory(): string {
+		if (this.shellCwd) return this.shellCwd;
+
+		const fallback =
+			this.terminalSession?.cwd ?? this.terminalSession?.initialCwd ?? "";
+		const title = this.currentTitle.trim();
+		if (!title) return fallback;
+
+		// bash/zsh default titles look like "user@host: ~/path"
+		const candidate = title.includes(": ")
+			? title.slice(title.indexOf(": ") + 2)
+			: title;
+		const home = process.env.HOME || process.env.USERPROFILE || "";
+
+		if (candidate === "~" || candidate.startsWith("~/")) {
+			return home ? home + candidate.slice(1) : fallback;
+		}
+		if (/^[a-zA-Z]:[\\/]/.test(candidate) || candidate.startsWith("/")) {
+			return candidate;
+		}
+
+		return fallback;
+	}
+
+	/**
+	 * Replay a saved buffer before the PTY is connected
+	 * The replayed text is plain output, so it is effectively read-only
+	 */
+	private replayPendingBuffer(): void {
+		const replay = this.pendingReplay;
+		this.pendingReplay = null;
+		this.snapshotBuffer = null;
+		if (!replay?.buffer) return;
+
+		this.terminal.write(replay.buffer);
+		if (replay.banner) {
+			this.terminal.write(
+				`\x1b[0m\r\n\x1b[90m── ${replay.banner} ──\x1b[0m\r\n`,
+			);
+		}
+	}
+
 	/**
 	 * Called when the view is resized (Obsidian built-in)
 	 */
@@ -436,19 +823,16 @@ export class TerminalView extends BaseTerminalView {
 	}
 
 	/**
-	 * Save current session for restoration
+	 * Save current session so a later view can reattach to it
 	 */
 	private saveSession(): void {
-		if (!this.shadowRoot || !this.shadowContainer) return;
+		if (!this.terminal) return;
 
 		const sessionKey = this.getSessionKey();
 		shellSessions.set(sessionKey, {
 			terminal: this.terminal,
-			fitAddon: this.fitAddon,
-			shadowRoot: this.shadowRoot,
-			shadowContainer: this.shadowContainer,
-			isConnected: this.isConnected,
 			disposables: this.disposables,
+			serializeAddon: this.serializeAddon,
 		});
 	}
 
@@ -471,29 +855,173 @@ export class TerminalView extends BaseTerminalView {
 
 		try {
 			this.fitAddon.fit();
+			// Rows may have reflowed
+			this.snapshotBuffer = null;
 
 			// Sync PTY size
 			const dims = this.fitAddon.proposeDimensions();
 			if (dims) {
 				this.terminalSession.ptyProcess.resize(dims.cols, dims.rows);
+				this.recorder?.recordResize(dims.cols, dims.rows);
 			}
 		} catch (error) {
 			console.warn("Failed to resize terminal:", error);
 		}
 	}
 
+	/**
+	 * Launch profile the session was opened from, if any
+	 */
+	private get profile(): TerminalProfile | undefined {
+		return this.plugin.getProfile(this.terminalSession?.profileId);
+	}
+
+	/**
+	 * Renderer for this view (profile override or global setting)
+	 */
+	private get renderer(): TerminalRenderer {
+		return (
+			this.profile?.renderer ||
+			(this.plugin.settings?.renderer ?? DEFAULT_SETTINGS.renderer)
+		);
+	}
+
+	/**
+	 * Theme colors for this view (profile preset or global theme)
+	 */
+	getThemeColors(): Record<string, string> {
+		return this.plugin.getThemeColors(this.profile?.themePreset);
+	}
+
+	/**
+	 * Background image, opacity and blur of the profile, falling back to
+	 * the global settings for each one the profile leaves unset
+	 */
+	private getBackgroundOptions(): {
+		image: string;
+		opacity: number;
+		blur: number;
+	} {
+		const settings = this.plugin.settings;
+		return {
+			image:
+				this.profile?.backgroundImage ||
+				(settings?.backgroundImage ?? DEFAULT_SETTINGS.backgroundImage),
+			opacity:
+				this.profile?.backgroundOpacity ??
+				settings?.backgroundOpacity ??
+				DEFAULT_SETTINGS.backgroundOpacity,
+			blur:
+				this.profile?.backgroundBlur ??
+				settings?.backgroundBlur ??
+				DEFAULT_SETTINGS.backgroundBlur,
+		};
+	}
+
+	/**
+	 * Whether the background is see-through: an image, opacity or blur is
+	 * set, or the theme background itself is translucent
+	 */
+	private get hasSeeThroughBackground(): boolean {
+		if (this.useGhostty && this.ghosttyOpaque) return false;
+		const { image, opacity, blur } = this.getBackgroundOptions();
+		const background = this.getThemeColors().background ?? "";
+		return (
+			!!image ||
+			opacity < 100 ||
+			blur > 0 ||
+			getColorAlpha(background) < 1
+		);
+	}
+
+	/**
+	 * Theme passed to the renderer. A see-through background is painted
+	 * once by the container, so the renderer draws on a transparent one
+	 */
+	private getRendererTheme(
+		theme: Record<string, string>,
+	): Record<string, string> {
+		if (!this.hasSeeThroughBackground) return theme;
+		return { ...theme, background: TRANSPARENT };
+	}
+
+	/**
+	 * Font options of both renderers, with the fallback fonts appended to
+	 * the family
+	 */
+	private getFontOptions(): {
+		fontSize: number;
+		fontFamily: string;
+		fontWeight: FontWeight;
+		fontWeightBold: FontWeight;
+		letterSpacing: number;
+		lineHeight: number;
+	} {
+		const settings = this.plugin.settings;
+		return {
+			fontSize: this.getZoomedFontSize(this.fontZoom),
+			fontFamily: buildFontFamily(
+				settings?.fontFamily || DEFAULT_SETTINGS.fontFamily,
+				settings?.fontFallback ?? DEFAULT_SETTINGS.fontFallback,
+			),
+			// WebGL renderer often looks thinner than canvas, so its default
+			// weight is heavier
+			fontWeight: (settings?.fontWeight ||
+				(this.useWebGL ? "500" : "normal")) as FontWeight,
+			fontWeightBold: (settings?.fontWeightBold ||
+				DEFAULT_SETTINGS.fontWeightBold) as FontWeight,
+			letterSpacing:
+				settings?.letterSpacing ?? DEFAULT_SETTINGS.letterSpacing,
+			lineHeight: settings?.lineHeight ?? DEFAULT_SETTINGS.lineHeight,
+		};
+	}
+
+	/**
+	 * Font size setting plus a zoom, within MIN_FONT_SIZE and MAX_FONT_SIZE
+	 */
+	private getZoomedFontSize(zoom: number): number {
+		const fontSize =
+			this.plugin.settings?.fontSize ?? DEFAULT_SETTINGS.fontSize;
+		return Math.min(
+			MAX_FONT_SIZE,
+			Math.max(MIN_FONT_SIZE, fontSize + zoom),
+		);
+	}
+
+	/**
+	 * Change the font size of this terminal only, refit it and resize the
+	 * PTY. The zoom is kept in the view state
+	 *
+	 * @param step - Pixels to add, or 0 to go back to the Font size setting
+	 */
+	zoom(step: number): void {
+		const fontSize =
+			this.plugin.settings?.fontSize ?? DEFAULT_SETTINGS.fontSize;
+		this.fontZoom = step
+			? this.getZoomedFontSize(this.fontZoom + step) - fontSize
+			: 0;
+		if (!this.terminal) return;
+
+		this.terminal.options.fontSize = this.getZoomedFontSize(this.fontZoom);
+		if (this.useGhostty) {
+			this.refreshGhosttyFont();
+		}
+		this.resize();
+		this.app.workspace.requestSaveLayout();
+	}
+
 	/**
 	 * Check if Ghostty renderer is enabled
 	 */
 	private get useGhostty(): boolean {
-		return this.plugin.settings?.renderer === "ghostty";
+		return this.renderer === "ghostty";
 	}
 
 	/**
 	 * Check if WebGL renderer is enabled
 	 */
 	private get useWebGL(): boolean {
-		return this.plugin.settings?.renderer === "xterm-webgl";
+		return this.renderer === "xterm-webgl";
 	}
 
 	/**
@@ -518,6 +1046,7 @@ export class TerminalView extends BaseTerminalView {
 			this.loadAddons();
 			this.openTerminalInShadow();
 			this.loadWebglAddon(); // Must be after open() for WebGL context
+			this.replayPendingBuffer();
 			this.connectToPTY();
 
 			// Setup IME support for Ghostty mode (must be before setupKeyboardHandlers)
@@ -527,9 +1056,13 @@ export class TerminalView extends BaseTerminalView {
 
 			// Setup Obsidian link detection for all renderers
 			this.setupObsidianLinkDetector();
+			this.setupCommandDecorations();
+			this.setupSearch();
 
 			this.setupKeyboardHandlers();
+			this.setupClipboardHandlers();
 			this.setupContextMenu();
+			this.setupWheelZoom();
 
 			// Initial fit after a short delay to ensure DOM is ready
 			requestAnimationFrame(() => {
@@ -680,19 +1213,8 @@ export class TerminalView extends BaseTerminalView {
 
 			const key = e.key;
 
-			// Handle Ctrl+F for search (intercept before PTY forwarding)
-			if (e.ctrlKey && key.toLowerCase() === "f") {
-				e.preventDefault();
-				e.stopPropagation();
-				this.toggleSearch(true);
-				return;
-			}
-
-			// Handle Escape to close search
-			if (key === "Escape" && this.isSearchVisible) {
-				e.preventDefault();
-				e.stopPropagation();
-				this.toggleSearch(false);
+			// Keybindings and keys sent to Obsidian never reach the PTY
+			if (!this.handleKeyboardEvent(e)) {
 				return;
 			}
 
@@ -818,9 +1340,7 @@ export class TerminalView extends BaseTerminalView {
 			if (data !== null) {
 				e.preventDefault();
 				e.stopPropagation();
-				if (this.terminalSession.ptyProcess) {
-					this.terminalSession.ptyProcess.write(data);
-				}
+				this.sendInput(data);
 				// Clear textarea to prevent accumulation
 				if (this.imeTextarea) {
 					this.imeTextarea.value = "";
@@ -833,9 +1353,7 @@ export class TerminalView extends BaseTerminalView {
 			if (key.length === 1 && !e.ctrlKey && !e.altKey && !e.metaKey) {
 				e.preventDefault();
 				e.stopPropagation();
-				if (this.terminalSession.ptyProcess) {
-					this.terminalSession.ptyProcess.write(key);
-				}
+				this.sendInput(key);
 				// Clear textarea to prevent accumulation
 				if (this.imeTextarea) {
 					this.imeTextarea.value = "";
@@ -1095,6 +1613,31 @@ export class TerminalView extends BaseTerminalView {
 				}),
 		);
 
+		// Mirror input to the other terminals of the broadcast group
+		menu.addItem((item) =>
+			item
+				.setTitle("Broadcast input")
+				.setIcon("radio-tower")
+				.setChecked(!!this.terminalSession?.broadcast)
+				.onClick(() => {
+					this.setBroadcast(!this.terminalSession?.broadcast);
+				}),
+		);
+
+		// Record session as asciicast
+		menu.addItem((item) =>
+			item
+				.setTitle(this.recorder ? "Stop recording" : "Start recording")
+				.setIcon(this.recorder ? "square" : "circle-dot")
+				.onClick(() => {
+					if (this.recorder) {
+						void this.stopRecording();
+					} else {
+						this.startRecording();
+					}
+				}),
+		);
+
 		menu.addSeparator();
 
 		// Restart terminal
@@ -1107,6 +1650,16 @@ export class TerminalView extends BaseTerminalView {
 				}),
 		);
 
+		// Detach - close the pane but keep the shell running
+		menu.addItem((item) =>
+			item
+				.setTitle("Detach (keep running)")
+				.setIcon("unplug")
+				.onClick(() => {
+					this.detach();
+				}),
+		);
+
 		// New terminal (trigger plugin command)
 		menu.addItem((item) =>
 			item
@@ -1120,6 +1673,119 @@ export class TerminalView extends BaseTerminalView {
 		);
 	}
 
+	/**
+	 * Join or leave the broadcast group
+	 */
+	setBroadcast(enabled: boolean): void {
+		if (!this.terminalSession) return;
+		this.plugin.terminalManager.setBroadcast(
+			this.terminalSession.id,
+			enabled,
+		);
+	}
+
+	/**
+	 * Send typed or pasted input to the shell, mirrored to the rest of the
+	 * broadcast group when this terminal is in it
+	 */
+	private sendInput(data: string): void {
+		try {
+			this.plugin.terminalManager.writeInput(
+				this.terminalSession.id,
+				data,
+			);
+		} catch (error) {
+			console.error("Failed to write to PTY:", error);
+		}
+	}
+
+	/**
+	 * Show the banner of a broadcasting terminal, with its opt-out
+	 */
+	private updateBroadcastBanner(): void {
+		const session = this.terminalSession;
+		const broadcasting = !!session?.broadcast && session.isActive;
+		const count = broadcasting
+			? this.plugin.terminalManager.getBroadcastSessions().length
+			: 0;
+
+		if (!broadcasting) {
+			if (!this.broadcastBannerEl) return;
+			this.broadcastBannerEl.remove();
+			this.broadcastBannerEl = null;
+			this.contentEl.removeClass("is-broadcasting");
+			this.resize();
+			return;
+		}
+
+		let bannerEl = this.broadcastBannerEl;
+		if (!bannerEl) {
+			bannerEl = this.contentEl.createDiv({
+				cls: "terminal-broadcast-banner",
+				prepend: true,
+			});
+			setIcon(
+				bannerEl.createSpan({ cls: "terminal-broadcast-banner-icon" }),
+				"radio-tower",
+			);
+			bannerEl.createSpan({ cls: "terminal-broadcast-banner-text" });
+			bannerEl
+				.createEl("button", { text: "Leave" })
+				.addEventListener("click", () => this.setBroadcast(false));
+			bannerEl
+				.createEl("button", { text: "Stop all" })
+				.addEventListener("click", () =>
+					this.plugin.terminalManager.stopBroadcast(),
+				);
+			this.broadcastBannerEl = bannerEl;
+			this.contentEl.addClass("is-broadcasting");
+			this.resize();
+		}
+
+		const text = bannerEl.querySelector(".terminal-broadcast-banner-text");
+		text?.setText(
+			count > 1
+				? `Input is broadcast to ${count} terminals`
+				: "Input is broadcast, but no other terminal is in the group",
+		);
+	}
+
+	/**
+	 * Start recording PTY output and resizes (asciicast v2)
+	 */
+	startRecording(): void {
+		if (this.recorder || !this.terminal) return;
+
+		this.recorder = new AsciicastRecorder(
+			this.terminal.cols,
+			this.terminal.rows,
+			{
+				title: this.getDisplayText(),
+				env: {
+					SHELL: this.terminalSession.shell ?? "",
+					TERM: "xterm-256color",
+				},
+			},
+		);
+		new Notice("Recording terminal session");
+	}
+
+	/**
+	 * Stop recording and save the .cast file into the vault
+	 */
+	async stopRecording(): Promise<void> {
+		const recorder = this.recorder;
+		this.recorder = null;
+		if (!recorder) return;
+
+		try {
+			await this.plugin.saveRecording(recorder.serialize());
+		} catch (error) {
+			console.error("Failed to save recording:", error);
+			new Notice("Failed to save terminal recording");
+		}
+	}
+
 	/**
 	 * Split the current terminal view and create a new terminal in the split
 	 * @param direction "vertical" for side-by-side, "horizontal" for top-bottom
@@ -1134,23 +1800,22 @@ export class TerminalView extends BaseTerminalView {
 				direction,
 			);
 
-			// Create a new terminal session
-			const session =
-				await this.plugin.terminalManager.createTerminalWithAvailableShell();
+			// Create a new terminal session with the same profile
+			const session = await this.plugin.createSession(this.profile);
 
-			// Create new terminal view
-			const view = new TerminalView(newLeaf, session, this.plugin);
-
-			// Set the view state
+			// Set the view state - the view attaches to the session in setState()
 			await newLeaf.setViewState({
 				type: VIEW_TYPE_TERMINAL,
 				active: true,
+				state: { sessionId: session.id },
 			});
 
 			// Focus the new terminal after a short delay
 			setTimeout(() => {
 				this.app.workspace.setActiveLeaf(newLeaf, { focus: true });
-				view.focus();
+				if (newLeaf.view instanceof TerminalView) {
+					newLeaf.view.focus();
+				}
 			}, 100);
 		} catch (error) {
 			console.error("Failed to split terminal:", error);
@@ -1189,7 +1854,8 @@ export class TerminalView extends BaseTerminalView {
 		this.terminalViewContainer.appendChild(this.shadowHost);
 
 		// Initialize CSS variables with current theme colors
-		this.updateCSSVariables(this.plugin.themeColors);
+		this.updateCSSVariables(this.getThemeColors());
+		this.applyBackground();
 
 		console.log("✅ Shadow DOM created");
 	}
@@ -1208,6 +1874,7 @@ export class TerminalView extends BaseTerminalView {
 		const styleEl = document.createElement("style");
 		styleEl.textContent = shadowStyles;
 		this.terminalViewContainer.prepend(styleEl);
+		this.applyBackground();
 
 		console.log("✅ Direct DOM created (WebGL mode)");
 	}
@@ -1216,26 +1883,16 @@ export class TerminalView extends BaseTerminalView {
 	 * Create terminal instance (xterm.js or ghostty-web)
 	 */
 	private createTerminalInstance(): void {
-		const theme = this.plugin.themeColors;
+		const theme = this.getRendererTheme(this.getThemeColors());
 
 		// 从插件设置读取配置，提供安全回退值
 		const settings = this.plugin.settings;
-		const fontSize = settings?.fontSize ?? DEFAULT_SETTINGS.fontSize;
-		const fontFamily = settings?.fontFamily ?? DEFAULT_SETTINGS.fontFamily;
 		const cursorBlink =
 			settings?.cursorBlink ?? DEFAULT_SETTINGS.cursorBlink;
 		const scrollback = settings?.scrollback ?? DEFAULT_SETTINGS.scrollback;
 
 		const terminalOptions = {
-			fontSize,
-			fontFamily,
-			// WebGL renderer often looks thinner than canvas, use heavier font weight
-			// xterm.js FontWeight accepts: "normal" | "bold" | "100" - "900"
-			fontWeight: (this.useWebGL ? "500" : "normal") as
-				| "normal"
-				| "bold"
-				| "500",
-			fontWeightBold: "bold" as const,
+			...this.getFontOptions(),
 			cursorBlink,
 			cursorStyle: "block" as const,
 			theme,
@@ -1257,6 +1914,13 @@ export class TerminalView extends BaseTerminalView {
 				windowsMode: process.platform === "win32",
 				// 允许透明度以支持 Obsidian 主题
 				allowProposedApi: true,
+				// The palette is already adjusted; this also covers text on
+				// colored cell backgrounds
+				minimumContrastRatio:
+					settings?.minimumContrastRatio ??
+					DEFAULT_SETTINGS.minimumContrastRatio,
+				// Nerd Font icons are often wider than a cell
+				rescaleOverlappingGlyphs: true,
 			});
 			console.log("✅ xterm.js Terminal instance created");
 		}
@@ -1290,8 +1954,9 @@ export class TerminalView extends BaseTerminalView {
 			this.searchAddon = new SearchAddon();
 			this.terminal.loadAddon(this.searchAddon);
 
-			// Serialize addon - buffer serialization
-			this.terminal.loadAddon(new SerializeAddon());
+			// Serialize addon - buffer serialization (session persistence)
+			this.serializeAddon = new SerializeAddon();
+			this.terminal.loadAddon(this.serializeAddon);
 
 			// Unicode11 addon - better unicode support
 			const unicode11Addon = new Unicode11Addon();
@@ -1339,7 +2004,7 @@ export class TerminalView extends BaseTerminalView {
 
 				// CRITICAL FIX: Re-apply theme to force WebGL renderer to pick up colors
 				// WebGL addon needs theme to be set AFTER it's loaded to properly initialize colors
-				const theme = this.plugin.themeColors;
+				const theme = this.getRendererTheme(this.getThemeColors());
 				if (theme) {
 					// Force a complete theme refresh by setting options.theme
 					(this.terminal as XTerminal).options.theme = { ...theme };
@@ -1364,6 +2029,12 @@ export class TerminalView extends BaseTerminalView {
 			throw new Error("Terminal container not initialized");
 		}
 		this.terminal.open(this.shadowContainer);
+		this.setupGhosttyFont();
+		this.setupGhosttyTransparency();
+		if (this.terminal instanceof GhosttyTerminal) {
+			this.ghosttyRows.attach(this.terminal);
+		}
+		this.updateLigatures();
 		const mode = this.useWebGL ? "Direct DOM (WebGL)" : "Shadow DOM";
 		console.log(`✅ Terminal opened in ${mode}`);
 	}
@@ -1387,18 +2058,26 @@ export class TerminalView extends BaseTerminalView {
 
 		// Handle user input - send to PTY
 		const dataDisposable = this.terminal.onData((data: string) => {
-			try {
-				ptyProcess.write(data);
-			} catch (error) {
-				console.error("Failed to write to PTY:", error);
-			}
+			this.sendInput(data);
 		});
 		this.disposables.push(dataDisposable);
 
 		// Handle PTY output - display in terminal
+		// Shell integration events are handled once the output before them
+		// has been written, so cursor rows line up with the sequence
+		this.shellParser = new ShellIntegrationParser();
+		this.shellCommands = [];
 		const onDataHandler = (data: string) => {
+			this.lastActivity = Date.now();
+			this.snapshotBuffer = null;
+			this.recorder?.recordOutput(data);
 			try {
-				this.terminal.write(data);
+				for (const { text, event } of this.shellParser.parse(data)) {
+					this.terminal.write(
+						text,
+						event ? () => this.handleShellEvent(event) : undefined,
+					);
+				}
 			} catch (error) {
 				console.error("Failed to write to terminal:", error);
 			}
@@ -1413,6 +2092,7 @@ export class TerminalView extends BaseTerminalView {
 		const titleDisposable = this.terminal.onTitleChange((title: string) => {
 			this.currentTitle = title;
 			this.updateTabTitle();
+			this.plugin.terminalManager.notifySessionsChanged();
 		});
 		this.disposables.push(titleDisposable);
 
@@ -1430,10 +2110,196 @@ export class TerminalView extends BaseTerminalView {
 		console.log("✅ Terminal connected to PTY");
 	}
 
+	/**
+	 * Track cwd and command boundaries reported by shell integration
+	 */
+	private handleShellEvent(event: ShellIntegrationEvent): void {
+		if (!this.terminal) return;
+
+		const current = this.shellCommands[this.shellCommands.length - 1];
+
+		switch (event.type) {
+			case "cwd":
+				if (event.cwd === this.shellCwd) return;
+				this.shellCwd = event.cwd;
+				this.terminalSession.cwd = event.cwd;
+				this.updateTabTitle();
+				this.plugin.terminalManager.notifySessionsChanged();
+				break;
+			case "prompt-start":
+				this.shellCommands.push({ prompt: this.createRowMarker() });
+				if (this.shellCommands.length > SHELL_COMMAND_HISTORY_LIMIT) {
+					const dropped = this.shellCommands.shift();
+					dropped?.prompt.dispose();
+					dropped?.output?.dispose();
+					dropped?.end?.dispose();
+				}
+				break;
+			case "command-start":
+				if (current && !current.output) {
+					current.output = this.createRowMarker();
+					current.startedAt = Date.now();
+				}
+				break;
+			case "command-end":
+				if (current?.output && !current.end) {
+					current.end = this.createRowMarker();
+					current.finishedAt = Date.now();
+					current.exitCode = event.exitCode;
+					this.commandDecorator?.decorate(current);
+				}
+				break;
+		}
+	}
+
+	/**
+	 * Marker for the cursor row
+	 */
+	private createRowMarker(): RowMarker {
+		if (this.terminal instanceof GhosttyTerminal) {
+			const wasmTerm = this.terminal.wasmTerm;
+			return this.ghosttyRows.createMarker(
+				(wasmTerm?.getScrollbackLength() ?? 0) +
+					(wasmTerm?.getCursor().y ?? 0),
+			);
+		}
+
+		const buffer = this.terminal.buffer.active;
+		return (
+			this.terminal.registerMarker(0) ?? {
+				line: buffer.baseY + buffer.cursorY,
+				dispose: () => {},
+			}
+		);
+	}
+
+	/**
+	 * Commands reported by shell integration, oldest first
+	 */
+	getShellCommands(): readonly ShellCommand[] {
+		return this.shellCommands;
+	}
+
+	/**
+	 * (Re)create the gutter marks for finished commands
+	 * Ghostty needs this again after a rebuild, which empties the container
+	 */
+	private setupCommandDecorations(): void {
+		this.commandDecorator?.dispose();
+		this.commandDecorator = undefined;
+		if (!this.terminal || !this.shadowContainer) return;
+
+		const colors = this.getCommandDecorationColors();
+		this.commandDecorator =
+			this.terminal instanceof GhosttyTerminal
+				? new GhosttyCommandDecorator(
+						this.terminal,
+						this.shadowContainer,
+						colors,
+					)
+				: new XtermCommandDecorator(this.terminal, colors);
+
+		for (const command of this.shellCommands) {
+			if (command.end) this.commandDecorator.decorate(command);
+		}
+	}
+
+	private getCommandDecorationColors(): CommandDecorationColors {
+		const theme = this.getThemeColors();
+		return {
+			success: theme.green || "#22c55e",
+			failure: theme.red || "#ef4444",
+		};
+	}
+
+	/**
+	 * (Re)create the searcher for the current terminal
+	 * Ghostty needs this again after a rebuild, which empties the container
+	 */
+	private setupSearch(): void {
+		this.searcher?.dispose();
+		this.searcher = undefined;
+		if (!this.terminal || !this.shadowContainer) return;
+
+		const colors = this.getSearchHighlightColors();
+		const onResults = (results: SearchResults) =>
+			this.searchCountEl?.setText(formatSearchResults(results));
+		if (this.terminal instanceof GhosttyTerminal) {
+			this.searcher = new GhosttySearcher(
+				this.terminal,
+				this.shadowContainer,
+				colors,
+				onResults,
+			);
+		} else if (this.searchAddon) {
+			this.searcher = new XtermSearcher(
+				this.searchAddon,
+				colors,
+				onResults,
+			);
+		}
+	}
+
+	/**
+	 * Match highlights in the theme's yellow, blended into the background
+	 */
+	private getSearchHighlightColors(): SearchHighlightColors {
+		const theme = this.getThemeColors();
+		const background = toHexColor(theme.background || "#1e1e1e");
+		const highlight = theme.yellow || "#e0ac00";
+		return {
+			match: toHexColor(withAlpha(highlight, 0.3), background),
+			activeMatch: toHexColor(withAlpha(highlight, 0.6), background),
+			activeBorder: toHexColor(highlight, background),
+		};
+	}
+
+	/**
+	 * Whether shell integration has reported any prompt rows
+	 */
+	hasPrompts(): boolean {
+		return this.shellCommands.some((command) => command.prompt.line >= 0);
+	}
+
+	/**
+	 * Scroll the prompt above or below the top of the viewport into view
+	 * Scrolls to the bottom when there is no later prompt
+	 */
+	scrollToPrompt(direction: "previous" | "next"): void {
+		if (!this.terminal) return;
+
+		const ghostty =
+			this.terminal instanceof GhosttyTerminal ? this.terminal : null;
+		const scrollback = ghostty?.wasmTerm?.getScrollbackLength() ?? 0;
+		const viewportTop = ghostty
+			? scrollback - ghostty.getViewportY()
+			: (this.terminal as XTerminal).buffer.active.viewportY;
+
+		const lines = this.shellCommands
+			.map((command) => command.prompt.line)
+			.filter((line) => line >= 0);
+		const target =
+			direction === "previous"
+				? lines.filter((line) => line < viewportTop).pop()
+				: lines.find((line) => line > viewportTop);
+
+		if (target === undefined) {
+			if (direction === "next") this.terminal.scrollToBottom();
+			return;
+		}
+
+		if (ghostty) {
+			// ghostty-web's scrollToLine takes lines scrolled back from the bottom
+			this.terminal.scrollToLine(scrollback - target);
+		} else {
+			this.terminal.scrollToLine(target);
+		}
+	}
+
 	/**
 	 * Update tab title with current directory and shell name
 	 */
-	private updateTabTitle(): void {
+	updateTabTitle(): void {
 		const leaf = this.leaf as any;
 		if (leaf.tabHeaderInnerTitleEl) {
 			leaf.tabHeaderInnerTitleEl.setText(this.getDisplayText());
@@ -1467,6 +2333,276 @@ export class TerminalView extends BaseTerminalView {
 		}
 	}
 
+	/**
+	 * Apply the background image, opacity and blur
+	 * The image sits behind the container, which paints the theme background
+	 * at the chosen opacity and blurs what is behind it (frosted glass)
+	 */
+	private applyBackground(): void {
+		const container = this.shadowContainer;
+		if (!container) return;
+
+		const { image, opacity, blur } = this.getBackgroundOptions();
+		const seeThrough = this.hasSeeThroughBackground;
+		this.contentEl.toggleClass("has-terminal-background", seeThrough);
+		if (seeThrough) {
+			const background = this.getThemeColors().background ?? "";
+			// The xterm viewport reads --terminal-bg and must stay clear
+			container.style.setProperty("--terminal-bg", TRANSPARENT);
+			container.style.backgroundColor = withAlpha(
+				background,
+				opacity / 100,
+			);
+			if (blur > 0) {
+				container.style.setProperty(
+					"backdrop-filter",
+					`blur(${blur}px)`,
+				);
+			} else {
+				container.style.removeProperty("backdrop-filter");
+			}
+		} else {
+			container.style.removeProperty("--terminal-bg");
+			container.style.removeProperty("background-color");
+			container.style.removeProperty("backdrop-filter");
+		}
+
+		const file = image
+			? this.app.vault.getFileByPath(normalizePath(image))
+			: null;
+		if (image && !file) {
+			console.warn(`Terminal background image not found: ${image}`);
+		}
+		this.terminalViewContainer.toggleClass("has-background-image", !!file);
+		if (!file) {
+			this.backgroundImageEl?.remove();
+			this.backgroundImageEl = null;
+			return;
+		}
+		if (!this.backgroundImageEl) {
+			this.backgroundImageEl = this.terminalViewContainer.createDiv({
+				cls: "terminal-background-image",
+				prepend: true,
+			});
+		}
+		this.backgroundImageEl.setCssStyles({
+			backgroundImage: `url("${this.app.vault.getResourcePath(file)}")`,
+		});
+	}
+
+	/**
+	 * ghostty-web only takes a font size and family. Weights are written
+	 * into the font its renderer sets for each cell, and letter spacing and
+	 * line height are added to the cell size it measures
+	 * These reach into renderer internals; when they are missing or throw,
+	 * the terminal keeps ghostty-web's own font handling
+	 */
+	private setupGhosttyFont(): void {
+		const renderer = this.getGhosttyRenderer();
+		if (!renderer) {
+			if (this.useGhostty) {
+				console.warn(
+					"Ghostty renderer internals not found, font weight, letter spacing and line height are not applied",
+				);
+			}
+			return;
+		}
+
+		try {
+			this.patchGhosttyFont(renderer);
+			this.refreshGhosttyFont();
+		} catch (error) {
+			console.warn("Failed to apply Ghostty font settings:", error);
+		}
+	}
+
+	private patchGhosttyFont(renderer: GhosttyRenderer): void {
+		const { ctx } = renderer;
+		const font = Object.getOwnPropertyDescriptor(
+			Object.getPrototypeOf(ctx),
+			"font",
+		);
+		if (font?.get && font.set) {
+			const { get, set } = font;
+			Object.defineProperty(ctx, "font", {
+				configurable: true,
+				get: () => get.call(ctx),
+				set: (value: string) => {
+					const { fontWeight, fontWeightBold } =
+						this.getFontOptions();
+					// "[italic ][bold ]14px family"
+					set.call(
+						ctx,
+						value.replace(
+							/^(italic )?(bold )?/,
+							(_, italic = "", bold) =>
+								`${italic}${bold ? fontWeightBold : fontWeight} `,
+						),
+					);
+				},
+			});
+		}
+
+		const measureFont = renderer.measureFont.bind(renderer);
+		renderer.measureFont = () => {
+			const { letterSpacing, lineHeight } = this.getFontOptions();
+			const metrics = measureFont();
+			const height = Math.ceil(metrics.height * lineHeight);
+			return {
+				width: metrics.width + Math.round(letterSpacing),
+				height,
+				baseline:
+					metrics.baseline +
+					Math.floor((height - metrics.height) / 2),
+			};
+		};
+	}
+
+	/**
+	 * Remeasure Ghostty cells after font settings change and redraw
+	 */
+	private refreshGhosttyFont(): void {
+		const renderer = this.getGhosttyRenderer();
+		if (!renderer) return;
+		try {
+			renderer.remeasureFont();
+			const { handleFontChange } = this.terminal as unknown as {
+				handleFontChange?: unknown;
+			};
+			if (typeof handleFontChange === "function") {
+				handleFontChange.call(this.terminal);
+			}
+		} catch (error) {
+			console.warn("Failed to remeasure the Ghostty font:", error);
+		}
+	}
+
+	/**
+	 * The ghostty-web canvas renderer, if it still has the parts the view
+	 * adjusts
+	 */
+	private getGhosttyRenderer(): GhosttyRenderer | undefined {
+		if (!this.useGhostty) return undefined;
+		const { renderer } = this.terminal as unknown as {
+			renderer?: Partial<GhosttyRenderer>;
+		};
+		if (
+			!renderer?.ctx ||
+			typeof renderer.measureFont !== "function" ||
+			typeof renderer.remeasureFont !== "function"
+		) {
+			return undefined;
+		}
+		return renderer as GhosttyRenderer;
+	}
+
+	/**
+	 * Draw the ligatures of the font (xterm only; ghostty-web draws every
+	 * cell on its own). The ligatures addon reads the font's own tables;
+	 * if it cannot be loaded, common operator runs are joined instead
+	 */
+	private updateLigatures(): void {
+		if (this.useGhostty || !this.terminal) return;
+
+		const terminal = this.terminal as XTerminal;
+		const enabled =
+			this.plugin.settings?.fontLigatures ??
+			DEFAULT_SETTINGS.fontLigatures;
+		const active =
+			this.ligaturesAddon !== null || this.ligatureJoinerId !== null;
+
+		if (enabled && !active) {
+			try {
+				const addon = new LigaturesAddon();
+				terminal.loadAddon(addon);
+				this.ligaturesAddon = addon;
+			} catch (error) {
+				console.warn(
+					"Failed to load ligatures addon, joining operators instead:",
+					error,
+				);
+				this.ligatureJoinerId =
+					terminal.registerCharacterJoiner(findLigatureRanges);
+			}
+		} else if (!enabled && active) {
+			this.ligaturesAddon?.dispose();
+			this.ligaturesAddon = null;
+			if (this.ligatureJoinerId !== null) {
+				terminal.deregisterCharacterJoiner(this.ligatureJoinerId);
+				this.ligatureJoinerId = null;
+			}
+		}
+	}
+
+	/**
+	 * ghostty-web paints the background color over the previous frame
+	 * instead of clearing it, which erases nothing once that color is
+	 * transparent. Clear the areas filled with the transparent background
+	 * first; selection, cursor and cell colors are drawn as before.
+	 * The canvas context is a renderer internal; without it the terminal
+	 * falls back to an opaque background
+	 */
+	private setupGhosttyTransparency(): void {
+		if (!this.useGhostty || !this.hasSeeThroughBackground) return;
+
+		const ctx = this.getGhosttyContext();
+		if (!ctx) {
+			this.useOpaqueGhosttyBackground(
+				"Ghostty canvas not found, drawing an opaque background",
+			);
+			return;
+		}
+
+		try {
+			// The color as the canvas reports it back
+			ctx.save();
+			ctx.fillStyle = TRANSPARENT;
+			const transparent = ctx.fillStyle;
+			ctx.restore();
+
+			const fillRect = ctx.fillRect.bind(ctx);
+			ctx.fillRect = (x: number, y: number, w: number, h: number) => {
+				if (ctx.fillStyle === transparent) ctx.clearRect(x, y, w, h);
+				fillRect(x, y, w, h);
+			};
+		} catch (error) {
+			this.useOpaqueGhosttyBackground(
+				`Failed to make the Ghostty canvas see-through: ${error}`,
+			);
+		}
+	}
+
+	/**
+	 * The 2D context ghostty-web draws with, if it can be cleared
+	 */
+	private getGhosttyContext(): CanvasRenderingContext2D | undefined {
+		const { renderer } = this.terminal as unknown as {
+			renderer?: { ctx?: Partial<CanvasRenderingContext2D> };
+		};
+		const ctx = renderer?.ctx;
+		if (
+			typeof ctx?.fillRect !== "function" ||
+			typeof ctx.clearRect !== "function"
+		) {
+			return undefined;
+		}
+		return ctx as CanvasRenderingContext2D;
+	}
+
+	/**
+	 * Rebuild the Ghostty terminal on its theme background, as it cannot
+	 * draw on a transparent one
+	 */
+	private useOpaqueGhosttyBackground(reason: string): void {
+		console.warn(reason);
+		this.ghosttyOpaque = true;
+		window.setTimeout(() => {
+			if (this.shadowContainer?.isConnected) {
+				this.updateTheme(this.getThemeColors());
+			}
+		}, 0);
+	}
+
 	/**
 	 * Get Obsidian link colors from CSS variables
 	 * Returns colors for link highlighting in terminal
@@ -1543,22 +2679,28 @@ export class TerminalView extends BaseTerminalView {
 
 		// Sync CSS variables to Shadow DOM for container/viewport background
 		this.updateCSSVariables(theme);
+		this.applyBackground();
 
 		if (!this.terminal) return;
 
 		if (this.useGhostty) {
 			// ghostty-web 0.3.0 limitation: theme changes after open() are not supported
 			// Cell colors are baked into WASM memory. We must rebuild the terminal.
-			this.rebuildGhosttyTerminal(theme);
+			this.rebuildGhosttyTerminal(this.getRendererTheme(theme));
 		} else {
 			// xterm.js handles theme changes automatically via options
-			this.terminal.options.theme = theme;
+			this.terminal.options.theme = this.getRendererTheme(theme);
 
 			// Update Obsidian link highlighter colors
 			if (this.linkHighlighter) {
 				const linkColors = this.getObsidianLinkColors();
 				this.linkHighlighter.updateColors(linkColors);
 			}
+
+			this.commandDecorator?.updateColors(
+				this.getCommandDecorationColors(),
+			);
+			this.searcher?.updateColors(this.getSearchHighlightColors());
 		}
 	}
 
@@ -1609,9 +2751,7 @@ export class TerminalView extends BaseTerminalView {
 
 		// Step 4: Create new terminal with new theme
 		const settings = this.plugin.settings;
-		const fontSize = settings?.fontSize ?? DEFAULT_SETTINGS.fontSize;
-		const fontFamily =
-			"'Monaco', 'Menlo', 'Consolas', 'Courier New', monospace";
+		const { fontSize, fontFamily } = this.getFontOptions();
 		const cursorBlink =
 			settings?.cursorBlink ?? DEFAULT_SETTINGS.cursorBlink;
 		const scrollback = settings?.scrollback ?? DEFAULT_SETTINGS.scrollback;
@@ -1635,19 +2775,20 @@ export class TerminalView extends BaseTerminalView {
 
 		// Step 6: Open in shadow container
 		this.terminal.open(this.shadowContainer);
+		this.setupGhosttyFont();
+		this.setupGhosttyTransparency();
+		if (this.terminal instanceof GhosttyTerminal) {
+			this.ghosttyRows.attach(this.terminal);
+		}
 
 		// Step 7: Reconnect data handler (PTY output -> terminal)
 		// Note: PTY -> terminal handler was on ptyProcess, still active
 		// We only need to reconnect terminal -> PTY (user input)
-		const { ptyProcess } = this.terminalSession;
 		const dataDisposable = this.terminal.onData((data: string) => {
-			try {
-				ptyProcess.write(data);
-			} catch (error) {
-				console.error("Failed to write to PTY:", error);
-			}
+			this.sendInput(data);
 		});
 		this.disposables.push(dataDisposable);
+		this.watchSelection();
 
 		// Step 8: Restore buffer content
 		if (bufferContent.length > 0) {
@@ -1667,6 +2808,10 @@ export class TerminalView extends BaseTerminalView {
 			}
 		});
 
+		// Step 10: Recreate the overlays removed with the old canvas
+		this.setupCommandDecorations();
+		this.setupSearch();
+
 		console.log("🔄 Ghostty terminal rebuild complete");
 	}
 
@@ -1769,7 +2914,7 @@ export class TerminalView extends BaseTerminalView {
 	/**
 	 * Restart the terminal session
 	 */
-	private async restartTerminal(): Promise<void> {
+	async restartTerminal(): Promise<void> {
 		if (this.isRestarting) return;
 
 		this.isRestarting = true;
@@ -1827,6 +2972,12 @@ export class TerminalView extends BaseTerminalView {
 		}
 		this.disposables = [];
 
+		this.commandDecorator?.dispose();
+		this.commandDecorator = undefined;
+		this.searcher?.dispose();
+		this.searcher = undefined;
+		this.ghosttyRows.detach();
+
 		if (this.terminal) {
 			this.terminal.dispose();
 		}
@@ -1868,9 +3019,237 @@ export class TerminalView extends BaseTerminalView {
 	clear(): void {
 		if (this.terminal) {
 			this.terminal.clear();
+			this.snapshotBuffer = null;
+		}
+	}
+
+	/**
+	 * Currently selected terminal text, or an empty string
+	 */
+	getSelectionText(): string {
+		if (!this.terminal?.hasSelection()) return "";
+		return this.terminal.getSelection();
+	}
+
+	/**
+	 * Output of the last finished command
+	 * Uses OSC 133 boundaries when the shell reports them. Without shell
+	 * integration the prompt is recognized by repetition:
+	 * the output is everything between the previous line that starts
+	 * with the current (idle) prompt and the current prompt line
+	 */
+	getLastCommandOutput(): string | null {
+		// Shell integration knows the exact output rows
+		for (let i = this.shellCommands.length - 1; i >= 0; i--) {
+			const { output, end } = this.shellCommands[i];
+			if (output && end && output.line >= 0 && end.line >= 0) {
+				const text = this.getRowRangeText(output.line, end.line);
+				if (text.trim()) return text;
+			}
+		}
+
+		const { lines, cursorRow } = this.getBufferLines();
+		const prompt = lines[cursorRow]?.trimEnd();
+		if (!prompt) return null;
+
+		for (let i = cursorRow - 1; i >= 0; i--) {
+			if (lines[i].startsWith(prompt)) {
+				const output = lines.slice(i + 1, cursorRow).join("\n");
+				return output.trim() ? output : null;
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Buffer content for an export
+	 * xterm.js keeps colors for HTML and ANSI via SerializeAddon; Ghostty has
+	 * no serializer, so every format is built from the plain text buffer.
+	 * Selection exports in ANSI cover the selected rows as a whole.
+	 */
+	exportScrollback(
+		format: ScrollbackExportFormat,
+		range: ScrollbackExportRange,
+	): string {
+		if (!this.terminal) return "";
+
+		if (this.terminal instanceof GhosttyTerminal) {
+			return this.exportGhosttyScrollback(this.terminal, format, range);
+		}
+
+		const terminal = this.terminal;
+		const buffer = terminal.buffer.active;
+		let start = 0;
+		let end = buffer.length - 1;
+
+		if (range === "visible") {
+			start = buffer.viewportY;
+			end = start + terminal.rows - 1;
+		} else if (range === "selection") {
+			const position = terminal.getSelectionPosition();
+			if (!position) return "";
+			start = position.start.y;
+			end = position.end.y;
+		}
+
+		switch (format) {
+			case "markdown":
+				return range === "selection"
+					? terminal.getSelection()
+					: this.getRowRangeText(start, end + 1);
+			case "ansi":
+				return (
+					this.serializeAddon?.serialize({ range: { start, end } }) ??
+					""
+				);
+			case "html":
+				if (range === "all") {
+					return (
+						this.serializeAddon?.serializeAsHTML({
+							includeGlobalBackground: true,
+						}) ?? ""
+					);
+				}
+				return this.serializeRowsAsHTML(terminal, start, end);
 		}
 	}
 
+	/**
+	 * HTML for a row range
+	 * serializeAsHTML only takes a selection, so the rows are selected
+	 * for the call and the user's selection is put back afterwards
+	 */
+	private serializeRowsAsHTML(
+		terminal: XTerminal,
+		start: number,
+		end: number,
+	): string {
+		if (!this.serializeAddon) return "";
+
+		const previous = terminal.getSelectionPosition();
+		terminal.selectLines(start, end);
+		const html = this.serializeAddon.serializeAsHTML({
+			onlySelection: true,
+			includeGlobalBackground: true,
+		});
+
+		if (previous) {
+			const length =
+				(previous.end.y - previous.start.y) * terminal.cols +
+				previous.end.x -
+				previous.start.x;
+			terminal.select(previous.start.x, previous.start.y, length);
+		} else {
+			terminal.clearSelection();
+		}
+
+		return html;
+	}
+
+	private exportGhosttyScrollback(
+		terminal: GhosttyTerminal,
+		format: ScrollbackExportFormat,
+		range: ScrollbackExportRange,
+	): string {
+		let text: string;
+		if (range === "selection") {
+			text = terminal.getSelection();
+		} else {
+			let lines = this.extractGhosttyBuffer(terminal);
+			if (range === "visible") {
+				const scrollback =
+					terminal.wasmTerm?.getScrollbackLength() ?? 0;
+				const firstRow = scrollback - terminal.getViewportY();
+				lines = lines.slice(firstRow, firstRow + terminal.rows);
+			}
+			text = lines.join("\n");
+		}
+
+		if (format !== "html" || !text) return text;
+
+		const theme = this.getThemeColors();
+		const fontFamily = (
+			this.plugin.settings?.fontFamily || "monospace"
+		).replace(/"/g, "'");
+		const escaped = text
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;");
+		return (
+			`<html><body><pre style="color: ${theme.foreground}; ` +
+			`background-color: ${theme.background}; ` +
+			`font-family: ${fontFamily}">` +
+			`${escaped}</pre></body></html>`
+		);
+	}
+
+	/**
+	 * Text of buffer rows [startRow, endRow), wrapped rows joined
+	 */
+	private getRowRangeText(startRow: number, endRow: number): string {
+		if (!this.terminal) return "";
+
+		if (this.terminal instanceof GhosttyTerminal) {
+			return this.extractGhosttyBuffer(this.terminal)
+				.slice(startRow, endRow)
+				.join("\n");
+		}
+
+		const buffer = this.terminal.buffer.active;
+		const lines: string[] = [];
+		for (let y = startRow; y < endRow; y++) {
+			const line = buffer.getLine(y);
+			if (!line) continue;
+
+			const text = line.translateToString(true);
+			if (line.isWrapped && lines.length > 0) {
+				lines[lines.length - 1] += text;
+			} else {
+				lines.push(text);
+			}
+		}
+
+		return lines.join("\n");
+	}
+
+	/**
+	 * Logical buffer lines (wrapped rows joined) and the cursor's line index
+	 */
+	private getBufferLines(): { lines: string[]; cursorRow: number } {
+		if (!this.terminal) return { lines: [], cursorRow: 0 };
+
+		if (this.terminal instanceof GhosttyTerminal) {
+			const wasmTerm = this.terminal.wasmTerm;
+			const lines = this.extractGhosttyBuffer(this.terminal);
+			const scrollbackLen = wasmTerm?.getScrollbackLength() ?? 0;
+			const cursorY = wasmTerm?.getCursor().y ?? 0;
+			return { lines, cursorRow: scrollbackLen + cursorY };
+		}
+
+		const buffer = this.terminal.buffer.active;
+		const cursorAbs = buffer.baseY + buffer.cursorY;
+		const lines: string[] = [];
+		let cursorRow = 0;
+
+		for (let y = 0; y < buffer.length; y++) {
+			const line = buffer.getLine(y);
+			if (!line) continue;
+
+			const text = line.translateToString(true);
+			if (line.isWrapped && lines.length > 0) {
+				lines[lines.length - 1] += text;
+			} else {
+				lines.push(text);
+			}
+			if (y === cursorAbs) {
+				cursorRow = lines.length - 1;
+			}
+		}
+
+		return { lines, cursorRow };
+	}
+
 	/**
 	 * Toggle search box visibility
 	 */
@@ -1915,7 +3294,8 @@ export class TerminalView extends BaseTerminalView {
 			this.searchContainer.style.display = "none";
 		}
 		this.isSearchVisible = false;
-		this.searchAddon?.clearDecorations();
+		this.searcher?.clear();
+		this.searchCountEl?.setText("");
 		this.terminal?.focus();
 	}
 
@@ -1938,6 +3318,37 @@ export class TerminalView extends BaseTerminalView {
 			},
 		});
 
+		// "N of M"
+		this.searchCountEl = this.searchContainer.createSpan({
+			cls: "terminal-search-count",
+		});
+
+		// Option toggles
+		const toggles: Array<[keyof TerminalSearchOptions, string, string]> = [
+			["caseSensitive", "case-sensitive", "Match case"],
+			["wholeWord", "whole-word", "Match whole word"],
+			["regex", "regex", "Use regular expression"],
+		];
+		for (const [option, icon, label] of toggles) {
+			const toggleBtn = this.searchContainer.createEl("button", {
+				cls: "terminal-search-btn terminal-search-toggle",
+				attr: { "aria-label": label },
+			});
+			setIcon(toggleBtn, icon);
+			const update = () => {
+				const enabled = this.searchOptions[option];
+				toggleBtn.toggleClass("is-active", enabled);
+				toggleBtn.setAttr("aria-pressed", String(enabled));
+			};
+			update();
+			toggleBtn.addEventListener("click", () => {
+				this.searchOptions[option] = !this.searchOptions[option];
+				update();
+				this.performSearch();
+				this.searchInput?.focus();
+			});
+		}
+
 		// Previous button
 		const prevBtn = this.searchContainer.createEl("button", {
 			cls: "terminal-search-btn",
@@ -1987,130 +3398,45 @@ export class TerminalView extends BaseTerminalView {
 	}
 
 	/**
-	 * Perform search with current input value
+	 * Search as the query is typed, keeping the current match while it
+	 * still matches
 	 */
 	private performSearch(): void {
 		if (!this.searchInput) return;
 
 		const query = this.searchInput.value;
-		if (!query) {
-			this.searchAddon?.clearDecorations();
+		const isValid =
+			!query || buildSearchPattern(query, this.searchOptions) !== null;
+		this.searchInput.toggleClass("is-invalid", !isValid);
+
+		if (!query || !isValid) {
+			this.searcher?.clear();
+			this.searchCountEl?.setText(isValid ? "" : "Invalid pattern");
 			return;
 		}
 
-		if (this.searchAddon) {
-			// xterm.js mode: use SearchAddon
-			this.searchAddon.findNext(query);
-		} else if (this.useGhostty) {
-			// Ghostty mode: manual buffer search
-			this.ghosttySearch(query, "next");
-		}
+		this.searcher?.find(query, this.searchOptions, "next", true);
 	}
 
 	/**
 	 * Find next match
 	 */
 	private searchNext(): void {
-		if (!this.searchInput?.value) return;
-
-		if (this.searchAddon) {
-			this.searchAddon.findNext(this.searchInput.value);
-		} else if (this.useGhostty) {
-			this.ghosttySearch(this.searchInput.value, "next");
-		}
+		this.findMatch("next");
 	}
 
 	/**
 	 * Find previous match
 	 */
 	private searchPrevious(): void {
-		if (!this.searchInput?.value) return;
-
-		if (this.searchAddon) {
-			this.searchAddon.findPrevious(this.searchInput.value);
-		} else if (this.useGhostty) {
-			this.ghosttySearch(this.searchInput.value, "previous");
-		}
+		this.findMatch("previous");
 	}
 
-	/**
-	 * Manual search implementation for Ghostty mode
-	 * Searches through the terminal buffer and scrolls to match
-	 */
-	private ghosttySearch(query: string, direction: "next" | "previous"): void {
-		if (!this.terminal || !query) return;
-
-		const term = this.terminal as any;
-		if (!term.buffer?.active) return;
+	private findMatch(direction: "next" | "previous"): void {
+		const query = this.searchInput?.value;
+		if (!query || !buildSearchPattern(query, this.searchOptions)) return;
 
-		const buffer = term.buffer.active;
-		const totalLines = buffer.length;
-		const viewportY = buffer.viewportY ?? 0;
-		const cursorY = buffer.cursorY ?? 0;
-
-		// Current search position (viewport-relative)
-		const startLine = viewportY + cursorY;
-
-		// Search through buffer lines
-		const lowerQuery = query.toLowerCase();
-		let foundLine = -1;
-
-		if (direction === "next") {
-			// Search forward from current position
-			for (let i = startLine + 1; i < totalLines; i++) {
-				const line = buffer.getLine(i);
-				if (line) {
-					const text = line.translateToString().toLowerCase();
-					if (text.includes(lowerQuery)) {
-						foundLine = i;
-						break;
-					}
-				}
-			}
-			// Wrap around to beginning
-			if (foundLine === -1) {
-				for (let i = 0; i <= startLine; i++) {
-					const line = buffer.getLine(i);
-					if (line) {
-						const text = line.translateToString().toLowerCase();
-						if (text.includes(lowerQuery)) {
-							foundLine = i;
-							break;
-						}
-					}
-				}
-			}
-		} else {
-			// Search backward from current position
-			for (let i = startLine - 1; i >= 0; i--) {
-				const line = buffer.getLine(i);
-				if (line) {
-					const text = line.translateToString().toLowerCase();
-					if (text.includes(lowerQuery)) {
-						foundLine = i;
-						break;
-					}
-				}
-			}
-			// Wrap around to end
-			if (foundLine === -1) {
-				for (let i = totalLines - 1; i >= startLine; i--) {
-					const line = buffer.getLine(i);
-					if (line) {
-						const text = line.translateToString().toLowerCase();
-						if (text.includes(lowerQuery)) {
-							foundLine = i;
-							break;
-						}
-					}
-				}
-			}
-		}
-
-		// Scroll to found line
-		if (foundLine !== -1) {
-			this.terminal.scrollToLine(foundLine);
-		}
+		this.searcher?.find(query, this.searchOptions, direction);
 	}
 
 	/**
@@ -2120,13 +3446,25 @@ export class TerminalView extends BaseTerminalView {
 	applySettings(): void {
 		if (!this.terminal || !this.plugin.settings) return;
 
-		const { fontSize, fontFamily, cursorBlink, scrollback } =
-			this.plugin.settings;
+		const { cursorBlink, scrollback } = this.plugin.settings;
+		const font = this.getFontOptions();
 
-		this.terminal.options.fontSize = fontSize;
-		this.terminal.options.fontFamily = fontFamily;
+		this.terminal.options.fontSize = font.fontSize;
+		this.terminal.options.fontFamily = font.fontFamily;
 		this.terminal.options.cursorBlink = cursorBlink;
 		this.terminal.options.scrollback = scrollback;
+		if (this.useGhostty) {
+			this.refreshGhosttyFont();
+		} else {
+			const { options } = this.terminal as XTerminal;
+			options.fontWeight = font.fontWeight;
+			options.fontWeightBold = font.fontWeightBold;
+			options.letterSpacing = font.letterSpacing;
+			options.lineHeight = font.lineHeight;
+			options.minimumContrastRatio =
+				this.plugin.settings.minimumContrastRatio;
+			this.updateLigatures();
+		}
 
 		// 字体大小变更后需要重新适配尺寸
 		this.resize();
@@ -2146,27 +3484,16 @@ export class TerminalView extends BaseTerminalView {
 		// This prevents Obsidian's Ctrl+F (search notes) from triggering when terminal is focused
 		this.keyboardScope = new Scope(this.app.scope);
 
-		// Register terminal-specific hotkeys in the scope
-		// Ctrl+F: Terminal search (prevent Obsidian's global search)
-		this.keyboardScope.register(["Ctrl"], "f", (evt: KeyboardEvent) => {
-			evt.preventDefault();
-			evt.stopPropagation();
-			this.toggleSearch(true);
+		// Bound keys that reach Obsidian without passing the renderer's key
+		// handler (e.g. focus outside the terminal element) still run their
+		// action instead of an Obsidian hotkey
+		this.keyboardScope.register(null, null, (evt: KeyboardEvent) => {
+			const action = this.findKeyAction(evt);
+			if (!action) return true;
+			this.runAction(action);
 			return false;
 		});
 
-		// Escape: Close terminal search
-		this.keyboardScope.register([], "Escape", (evt: KeyboardEvent) => {
-			if (this.isSearchVisible) {
-				evt.preventDefault();
-				evt.stopPropagation();
-				this.toggleSearch(false);
-				return false;
-			}
-			// Let Escape propagate if search is not visible (for other uses)
-			return true;
-		});
-
 		// Push scope when terminal container gets focus
 		const pushScope = () => {
 			if (this.keyboardScope) {
@@ -2219,57 +3546,242 @@ export class TerminalView extends BaseTerminalView {
 	}
 
 	/**
-	 * Handle keyboard events for copy/paste/search
+	 * Run the action bound to a key
+	 * Returns false when the key must not reach the shell: it ran an action
+	 * or is one of the keys sent to Obsidian (which is left to propagate)
 	 */
 	private handleKeyboardEvent(event: KeyboardEvent): boolean {
-		// Handle Ctrl+F for search
-		if (event.ctrlKey && event.key === "f") {
+		const action = this.findKeyAction(event);
+		if (action) {
+			// Stop propagation so the Obsidian scope does not run it again
 			event.preventDefault();
-			this.toggleSearch(true);
+			event.stopPropagation();
+			if (event.type === "keydown") this.runAction(action);
 			return false;
 		}
 
-		// Handle Escape to close search
-		if (event.key === "Escape" && this.isSearchVisible) {
-			this.toggleSearch(false);
-			return false;
-		}
+		const obsidianKeys = this.plugin.settings?.obsidianKeys ?? [];
+		return !obsidianKeys.some((key) => matchesKeybinding(event, key));
+	}
 
-		// Handle Ctrl+C for copy when there's a selection
-		if (
-			event.ctrlKey &&
-			event.key === "c" &&
-			this.terminal.hasSelection()
-		) {
-			event.preventDefault();
-			event.stopPropagation();
-			const selection = this.terminal.getSelection();
-			if (selection) {
-				navigator.clipboard.writeText(selection).catch((err) => {
-					console.error("Failed to copy:", err);
-				});
+	/**
+	 * Action bound to a key that can run right now
+	 * Copy without a selection falls through, so Ctrl+C still interrupts
+	 */
+	private findKeyAction(event: KeyboardEvent): TerminalKeyAction | null {
+		const keybindings = this.plugin.settings?.keybindings;
+		if (!keybindings) return null;
+
+		for (const action of TERMINAL_KEY_ACTION_IDS) {
+			if (
+				matchesKeybinding(event, keybindings[action]) &&
+				this.canRunAction(action)
+			) {
+				return action;
 			}
-			return false; // Prevent default
 		}
+		return null;
+	}
 
-		// Handle Ctrl+V for paste
-		if (event.ctrlKey && event.key === "v") {
-			event.preventDefault();
-			event.stopPropagation();
-			navigator.clipboard
-				.readText()
-				.then((text) => {
-					if (text && this.terminalSession.ptyProcess) {
-						this.terminalSession.ptyProcess.write(text);
-					}
-				})
-				.catch((err) => {
-					console.error("Failed to paste:", err);
-				});
-			return false; // Prevent default
+	/**
+	 * Whether an action applies to the terminal's current state
+	 */
+	canRunAction(action: TerminalKeyAction): boolean {
+		if (!this.terminal) return false;
+
+		switch (action) {
+			case "copy":
+				return this.terminal.hasSelection();
+			case "close-search":
+				return this.isSearchVisible;
+			case "previous-prompt":
+			case "next-prompt":
+				return this.hasPrompts();
+			default:
+				return true;
+		}
+	}
+
+	/**
+	 * Run a keybinding action (also exposed as commands)
+	 */
+	runAction(action: TerminalKeyAction): void {
+		switch (action) {
+			case "copy":
+				this.copySelection();
+				break;
+			case "paste":
+				this.pasteFromClipboard();
+				break;
+			case "search":
+				this.toggleSearch(true);
+				break;
+			case "close-search":
+				this.toggleSearch(false);
+				break;
+			case "clear":
+				this.clear();
+				break;
+			case "select-all":
+				this.terminal.selectAll();
+				break;
+			case "split-right":
+				void this.splitTerminal("vertical");
+				break;
+			case "split-down":
+				void this.splitTerminal("horizontal");
+				break;
+			case "previous-prompt":
+				this.scrollToPrompt("previous");
+				break;
+			case "next-prompt":
+				this.scrollToPrompt("next");
+				break;
+			case "previous-terminal":
+				void this.plugin.focusAdjacentTerminal(this, -1);
+				break;
+			case "next-terminal":
+				void this.plugin.focusAdjacentTerminal(this, 1);
+				break;
+			case "new-terminal":
+				void this.plugin.openTerminal();
+				break;
+			case "zoom-in":
+				this.zoom(1);
+				break;
+			case "zoom-out":
+				this.zoom(-1);
+				break;
+			case "zoom-reset":
+				this.zoom(0);
+				break;
 		}
+	}
+
+	private copySelection(): void {
+		const selection = this.terminal.getSelection();
+		if (!selection) return;
+
+		navigator.clipboard.writeText(selection).catch((err) => {
+			console.error("Failed to copy:", err);
+		});
+	}
+
+	private pasteFromClipboard(): void {
+		navigator.clipboard
+			.readText()
+			.then((text) => {
+				if (text) this.pasteText(text);
+			})
+			.catch((err) => {
+				console.error("Failed to paste:", err);
+			});
+	}
+
+	/**
+	 * Paste text into the shell: trimmed, converted and bracketed as set
+	 * up, after confirmation when it spans lines or looks dangerous
+	 */
+	pasteText(text: string): void {
+		const settings = this.plugin.settings ?? DEFAULT_SETTINGS;
+		const options: PasteOptions = {
+			trimTrailingNewlines: settings.pasteTrimTrailingNewlines,
+			lineEnding: settings.pasteLineEnding,
+			bracketedPaste: !!this.terminalSession?.bracketedPaste,
+		};
+		const warnings = getPasteWarnings(text, options).filter((warning) =>
+			warning === "multiline"
+				? settings.confirmMultilinePaste
+				: settings.confirmDangerousPaste,
+		);
+
+		const send = () => this.sendInput(preparePaste(text, options));
+		if (warnings.length === 0) {
+			send();
+			return;
+		}
+
+		new ConfirmModal(this.app, {
+			title: "Paste into terminal",
+			message: warnings
+				.map((warning) => PASTE_WARNING_MESSAGES[warning])
+				.join(" "),
+			preview: text,
+			confirmText: "Paste",
+			onConfirm: () => {
+				send();
+				this.focus();
+			},
+		}).open();
+	}
+
+	/**
+	 * Send native paste events (Edit menu, middle click) through
+	 * pasteText() instead of the renderer's own handling
+	 */
+	private setupClipboardHandlers(): void {
+		const container = this.terminalViewContainer;
+		const onPaste = (evt: ClipboardEvent) => {
+			const text = evt.clipboardData?.getData("text/plain");
+			evt.preventDefault();
+			evt.stopPropagation();
+			if (text) this.pasteText(text);
+		};
+
+		container.addEventListener("paste", onPaste, { capture: true });
+		this.disposables.push({
+			dispose: () =>
+				container.removeEventListener("paste", onPaste, {
+					capture: true,
+				}),
+		});
+
+		this.watchSelection();
+	}
+
+	/**
+	 * Zoom on Ctrl/Cmd+scroll; trackpad pinches arrive as Ctrl+wheel too.
+	 * Small deltas add up so a pinch does not zoom on every event
+	 */
+	private setupWheelZoom(): void {
+		const container = this.terminalViewContainer;
+		const onWheel = (evt: WheelEvent) => {
+			if (!evt.ctrlKey && !evt.metaKey) return;
+			evt.preventDefault();
+			evt.stopPropagation();
+
+			this.zoomWheelDelta += evt.deltaY;
+			if (Math.abs(this.zoomWheelDelta) < ZOOM_WHEEL_STEP) return;
+			this.zoom(this.zoomWheelDelta < 0 ? 1 : -1);
+			this.zoomWheelDelta = 0;
+		};
 
-		return true; // Allow other keys
+		container.addEventListener("wheel", onWheel, {
+			capture: true,
+			passive: false,
+		});
+		this.disposables.push({
+			dispose: () =>
+				container.removeEventListener("wheel", onWheel, {
+					capture: true,
+				}),
+		});
+	}
+
+	/**
+	 * Copy each new selection when copy on select is on
+	 * (again after a Ghostty rebuild, which replaces the terminal)
+	 */
+	private watchSelection(): void {
+		const selectionDisposable = this.terminal.onSelectionChange(() => {
+			if (
+				this.plugin.settings?.copyOnSelect &&
+				this.terminal.hasSelection()
+			) {
+				this.copySelection();
+			}
+		});
+		this.disposables.push(selectionDisposable);
 	}
 
 	/**
@@ -2305,14 +3817,7 @@ export class TerminalView extends BaseTerminalView {
 					.setTitle("Copy")
 					.setIcon("copy")
 					.onClick(() => {
-						const selection = this.terminal.getSelection();
-						if (selection) {
-							navigator.clipboard
-								.writeText(selection)
-								.catch((err) => {
-									console.error("Failed to copy:", err);
-								});
-						}
+						this.copySelection();
 					}),
 			);
 		}
@@ -2323,16 +3828,7 @@ export class TerminalView extends BaseTerminalView {
 				.setTitle("Paste")
 				.setIcon("clipboard-paste")
 				.onClick(() => {
-					navigator.clipboard
-						.readText()
-						.then((text) => {
-							if (text && this.terminalSession.ptyProcess) {
-								this.terminalSession.ptyProcess.write(text);
-							}
-						})
-						.catch((err) => {
-							console.error("Failed to paste:", err);
-						});
+					this.pasteFromClipboard();
 				}),
 		);
 
@@ -2352,36 +3848,33 @@ export class TerminalView extends BaseTerminalView {
 	}
 
 	/**
-	 * Restore session from saved state
+	 * Reattach to a detached session
+	 * Neither renderer can be re-opened in a new container, so the off-screen
+	 * terminal is serialized and disposed, and a fresh one replays its buffer
 	 */
 	private async restoreSession(session: ShellSessionData): Promise<void> {
-		try {
-			this.terminal = session.terminal;
-			this.fitAddon = session.fitAddon;
-			this.isConnected = session.isConnected;
-			this.disposables = session.disposables;
+		shellSessions.delete(this.getSessionKey());
 
-			// Create new shadow DOM for this view
-			this.createShadowDOM();
+		const buffer = this.serializeBuffer(
+			session.terminal,
+			session.serializeAddon,
+		);
 
-			// Re-open terminal in new shadow container
-			if (this.shadowContainer) {
-				this.terminal.open(this.shadowContainer);
+		for (const disposable of session.disposables) {
+			try {
+				disposable.dispose();
+			} catch {
+				// Ignore disposal errors
 			}
-
-			// Fit to new container
-			requestAnimationFrame(() => {
-				this.fitAddon.fit();
-				this.terminal.focus();
-			});
-
-			this.initializationState = "ready";
-			console.log("✅ Terminal session restored (Shadow DOM)");
-		} catch (error) {
-			console.error("Failed to restore session:", error);
-			const sessionKey = this.getSessionKey();
-			shellSessions.delete(sessionKey);
-			await this.initializeTerminal();
 		}
+		try {
+			session.terminal.dispose();
+		} catch {
+			// Ignore disposal errors
+		}
+
+		this.pendingReplay = { buffer };
+		await this.initializeTerminal();
+		console.log("✅ Detached terminal session reattached");
 	}
 }